@@ -0,0 +1,138 @@
+// server/MatchQueue.ts - Waiting queue and preference-aware matchmaking
+import type { MatchPreferences } from '../src/types.js';
+import type { Client, MatchWideningStep, NormalizedPreferences } from './types.js';
+
+interface MatchQueueOptions {
+    maxRecentPartners: number;
+    matchWideningSteps: MatchWideningStep[];
+}
+
+export function normalizePreferences(preferences: MatchPreferences = {}, maxRecentPartners: number): NormalizedPreferences {
+    const language = preferences.language ? preferences.language.slice(0, 16) : null;
+    const topics = (preferences.topics ?? []).map(topic => topic.toLowerCase()).slice(0, 10);
+    const mediaMode = preferences.mediaMode === 'audio' ? 'audio' : 'video';
+    const avoidRecentPartners = Number.isInteger(preferences.avoidRecentPartners)
+        ? Math.min(Math.max(preferences.avoidRecentPartners as number, 0), maxRecentPartners)
+        : 0;
+
+    return { language, topics, mediaMode, avoidRecentPartners };
+}
+
+export default class MatchQueue {
+    private waiting: Client[] = [];
+    private options: MatchQueueOptions;
+
+    constructor(options: MatchQueueOptions) {
+        this.options = options;
+    }
+
+    get size(): number {
+        return this.waiting.length;
+    }
+
+    /** Queues a client and returns its 1-based position */
+    add(client: Client, preferences: MatchPreferences | undefined, now = Date.now()): number {
+        this.remove(client);
+        client.preferences = normalizePreferences(preferences, this.options.maxRecentPartners);
+        client.queuedAt = now;
+        this.waiting.push(client);
+        return this.waiting.length;
+    }
+
+    remove(client: Client): boolean {
+        const index = this.waiting.indexOf(client);
+        if (index === -1) return false;
+        this.waiting.splice(index, 1);
+        return true;
+    }
+
+    // Candidates must pass the hard criteria of the current widening step, which
+    // depends on how long the longer-waiting of the two has been in the queue.
+    // Among the eligible, the best score wins and ties go to whoever waited longest.
+    findMatch(client: Client, now = Date.now()): Client | null {
+        let best: Client | null = null;
+        let bestScore = -Infinity;
+
+        for (const candidate of this.waiting) {
+            if (candidate === client) continue;
+            if (!this.isCompatible(client, candidate, now)) continue;
+
+            const score = scoreMatch(client.preferences!, candidate.preferences!);
+            if (score > bestScore) {
+                best = candidate;
+                bestScore = score;
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Removes and returns every pair that can be matched right now. Waiting
+     * clients only meet newcomers on join, so this is re-run periodically to
+     * pick up pairs whose criteria have widened in the meantime.
+     */
+    takeMatches(now = Date.now()): [Client, Client][] {
+        const pairs: [Client, Client][] = [];
+
+        for (let i = 0; i < this.waiting.length; i++) {
+            const client = this.waiting[i];
+            const match = this.findMatch(client, now);
+            if (match) {
+                this.remove(client);
+                this.remove(match);
+                pairs.push([client, match]);
+                i = -1;
+            }
+        }
+
+        return pairs;
+    }
+
+    rememberPair(clientA: Client, clientB: Client): void {
+        this.rememberPartner(clientA, clientB.id);
+        this.rememberPartner(clientB, clientA.id);
+    }
+
+    private rememberPartner(client: Client, partnerId: string): void {
+        client.recentPartners = [partnerId, ...client.recentPartners].slice(0, this.options.maxRecentPartners);
+    }
+
+    private isCompatible(clientA: Client, clientB: Client, now: number): boolean {
+        const prefsA = clientA.preferences!;
+        const prefsB = clientB.preferences!;
+
+        if (hasRecentlyMet(clientA, clientB.id) || hasRecentlyMet(clientB, clientA.id)) {
+            return false;
+        }
+
+        const waited = now - Math.min(clientA.queuedAt, clientB.queuedAt);
+        const criteria = this.options.matchWideningSteps.filter(step => waited >= step.after).pop();
+        if (!criteria) return false;
+
+        if (criteria.language && prefsA.language && prefsB.language && prefsA.language !== prefsB.language) {
+            return false;
+        }
+        if (criteria.mediaMode && prefsA.mediaMode !== prefsB.mediaMode) {
+            return false;
+        }
+        if (criteria.topics && prefsA.topics.length > 0 && prefsB.topics.length > 0 &&
+            !prefsA.topics.some(topic => prefsB.topics.includes(topic))) {
+            return false;
+        }
+        return true;
+    }
+}
+
+function hasRecentlyMet(client: Client, otherId: string): boolean {
+    const avoid = client.preferences?.avoidRecentPartners ?? 0;
+    return client.recentPartners.slice(0, avoid).includes(otherId);
+}
+
+function scoreMatch(prefsA: NormalizedPreferences, prefsB: NormalizedPreferences): number {
+    let score = 0;
+    if (prefsA.language && prefsA.language === prefsB.language) score += 2;
+    if (prefsA.mediaMode === prefsB.mediaMode) score += 2;
+    score += prefsA.topics.filter(topic => prefsB.topics.includes(topic)).length;
+    return score;
+}
@@ -0,0 +1,92 @@
+// server/MessageRelay.ts - Forwards peer-to-peer traffic between room members
+import { WebSocket } from 'ws';
+import { PayloadOf, ServerMessage, encodeMessage } from '../shared/protocol.js';
+import type RoomManager from './RoomManager.js';
+import type { Client, ServerRoom } from './types.js';
+
+const MAX_OUTBOX_SIZE = 200;
+
+export function send(client: Client, message: ServerMessage): void {
+    if (client.resumeTimer) {
+        if (client.outbox.length < MAX_OUTBOX_SIZE) client.outbox.push(message);
+        return;
+    }
+
+    if (client.ws.readyState === WebSocket.OPEN) {
+        client.ws.send(encodeMessage(message));
+    }
+}
+
+export function sendError(client: Client, code: string, message: string): void {
+    send(client, {
+        type: 'error',
+        payload: { code, message }
+    });
+}
+
+export default class MessageRelay {
+    private clients: Map<string, Client>;
+    private rooms: RoomManager;
+
+    constructor(clients: Map<string, Client>, rooms: RoomManager) {
+        this.clients = clients;
+        this.rooms = rooms;
+    }
+
+    broadcast(room: ServerRoom, sender: Client, message: ServerMessage): void {
+        room.participants.forEach(id => {
+            if (id === sender.id) return;
+            const participant = this.clients.get(id);
+            if (participant) send(participant, message);
+        });
+    }
+
+    relaySignal(client: Client, { to, signal }: PayloadOf<'signal'>): void {
+        const target = this.clients.get(to);
+
+        if (target && client.room && target.room === client.room) {
+            send(target, {
+                type: 'signal',
+                payload: { from: client.id, signal }
+            });
+        } else {
+            sendError(client, 'invalid-signal-target', 'Invalid signal target');
+        }
+    }
+
+    // Each report describes the sender's link to one peer, so only that peer gets it
+    relayQualityReport(client: Client, { to, stats }: PayloadOf<'quality-report'>): void {
+        const room = this.rooms.get(client.room);
+        if (!room) return;
+
+        room.stats.quality[client.id] = stats;
+
+        const target = this.clients.get(to);
+        if (target && target.room === room.id) {
+            send(target, {
+                type: 'partner-quality',
+                payload: { from: client.id, stats }
+            });
+        }
+    }
+
+    relayMediaToggle(client: Client, payload: PayloadOf<'toggle-media'>): void {
+        const room = this.rooms.get(client.room);
+        if (room) {
+            this.broadcast(room, client, {
+                type: 'partner-media-toggle',
+                payload: { ...payload, from: client.id }
+            });
+        }
+    }
+
+    relayRecordingState(client: Client, { recording }: PayloadOf<'recording-state'>): void {
+        const room = this.rooms.get(client.room);
+        if (room) {
+            this.broadcast(room, client, {
+                type: 'partner-recording',
+                payload: { from: client.id, recording }
+            });
+        }
+    }
+}
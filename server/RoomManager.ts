@@ -0,0 +1,81 @@
+// server/RoomManager.ts - Room registry for matchmaking calls and private rooms
+import type { ServerRoom } from './types.js';
+
+const ROOM_ID_PATTERN = /^[A-Za-z0-9-]{3,64}$/;
+
+export function isValidRoomId(roomId: unknown): roomId is string {
+    return typeof roomId === 'string' && ROOM_ID_PATTERN.test(roomId);
+}
+
+export interface LeaveResult {
+    room: ServerRoom;
+    roomClosed: boolean;
+}
+
+export default class RoomManager {
+    private rooms = new Map<string, ServerRoom>();
+
+    get size(): number {
+        return this.rooms.size;
+    }
+
+    get(roomId: string | null): ServerRoom | undefined {
+        return roomId ? this.rooms.get(roomId) : undefined;
+    }
+
+    has(roomId: string): boolean {
+        return this.rooms.has(roomId);
+    }
+
+    create(roomId = generateRoomId(), { isPrivate = false } = {}): ServerRoom {
+        const room: ServerRoom = {
+            id: roomId,
+            participants: [],
+            isPrivate,
+            createdAt: Date.now(),
+            stats: {
+                duration: 0,
+                quality: {}
+            }
+        };
+
+        this.rooms.set(roomId, room);
+        return room;
+    }
+
+    /**
+     * Removes a participant. Private rooms live on while anyone is left in them;
+     * a matchmaking room closes as soon as either side leaves.
+     */
+    leave(roomId: string | null, clientId: string): LeaveResult | null {
+        const room = this.get(roomId);
+        if (!room) return null;
+
+        room.participants = room.participants.filter(id => id !== clientId);
+        const roomClosed = !room.isPrivate || room.participants.length === 0;
+
+        if (roomClosed) {
+            room.stats.duration = Date.now() - room.createdAt;
+            this.rooms.delete(room.id);
+        }
+
+        return { room, roomClosed };
+    }
+
+    /** Short, URL-friendly IDs for shareable invite links */
+    generateSlug(): string {
+        let slug: string;
+        do {
+            slug = `${randomChars(4)}-${randomChars(4)}`;
+        } while (this.rooms.has(slug));
+        return slug;
+    }
+}
+
+function generateRoomId(): string {
+    return `room_${Date.now()}_${randomChars(6)}`;
+}
+
+function randomChars(length: number): string {
+    return Math.random().toString(36).substr(2, length);
+}
@@ -0,0 +1,442 @@
+// server/SignalingServer.test.ts - Drives a real SignalingServer with in-process WebSocket clients
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocket } from 'ws';
+import { ClientMessage, ServerMessage, encodeMessage, parseMessage } from '../shared/protocol.js';
+import SignalingServer from './SignalingServer.js';
+import type { CallStats } from '../src/types.js';
+import type { SignalingServerConfig } from './types.js';
+
+type MessageOf<T extends ServerMessage['type']> = Extract<ServerMessage, { type: T }>;
+
+const silentLogger = { log: () => {}, warn: () => {}, error: () => {} };
+
+// How long a test waits for a message before failing
+const MESSAGE_TIMEOUT = 2000;
+
+const TEST_CONFIG: Partial<SignalingServerConfig> = {
+    port: 0,
+    host: '127.0.0.1',
+    maxRoomSize: 2,
+    resumeGracePeriod: 150,
+    // Long enough that the timers never fire on their own during a test
+    heartbeatInterval: 60000,
+    matchInterval: 60000,
+    logger: silentLogger
+};
+
+/** A signaling client that buffers every server message until a test asks for it */
+class TestClient {
+    readonly ws: WebSocket;
+    private received: ServerMessage[] = [];
+    private waiters: (() => void)[] = [];
+
+    private constructor(ws: WebSocket) {
+        this.ws = ws;
+        ws.on('message', (data) => {
+            const result = parseMessage(data.toString(), 'server');
+            assert.ok(result.ok, 'server sent an invalid message');
+            this.received.push(result.message);
+            this.waiters.splice(0).forEach(wake => wake());
+        });
+    }
+
+    static async connect(url: string): Promise<TestClient> {
+        const ws = new WebSocket(url);
+        const client = new TestClient(ws);
+        await new Promise((resolve, reject) => {
+            ws.once('open', resolve);
+            ws.once('error', reject);
+        });
+        return client;
+    }
+
+    /** Connects and waits for the greeting, returning the assigned id and resume token */
+    static async join(url: string): Promise<{ client: TestClient; id: string; resumeToken: string }> {
+        const client = await TestClient.connect(url);
+        const { payload } = await client.next('connected');
+        return { client, id: payload.clientId, resumeToken: payload.resumeToken };
+    }
+
+    send(message: ClientMessage): void {
+        this.ws.send(encodeMessage(message));
+    }
+
+    /** Resolves with the first buffered or future message of `type`, skipping anything else */
+    async next<T extends ServerMessage['type']>(type: T): Promise<MessageOf<T>> {
+        const deadline = Date.now() + MESSAGE_TIMEOUT;
+        for (;;) {
+            const index = this.received.findIndex(message => message.type === type);
+            if (index !== -1) return this.received.splice(index, 1)[0] as MessageOf<T>;
+
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) throw new Error(`Timed out waiting for ${type}`);
+            await new Promise<void>((resolve) => {
+                const timer = setTimeout(resolve, remaining);
+                this.waiters.push(() => {
+                    clearTimeout(timer);
+                    resolve();
+                });
+            });
+        }
+    }
+
+    /** Round-trips a stats request, so everything sent before it has been handled */
+    async sync(): Promise<void> {
+        this.send({ type: 'request-stats' });
+        await this.next('stats-response');
+    }
+
+    hasReceived(type: ServerMessage['type']): boolean {
+        return this.received.some(message => message.type === type);
+    }
+
+    close(): Promise<void> {
+        if (this.ws.readyState === WebSocket.CLOSED) return Promise.resolve();
+        return new Promise((resolve) => {
+            this.ws.once('close', () => resolve());
+            this.ws.close();
+        });
+    }
+}
+
+const QUALITY_REPORT: CallStats = {
+    audio: {
+        bitrate: 32000,
+        packetLoss: 1,
+        jitter: 12,
+        codec: 'audio/opus',
+        outbound: { bitrate: 32000, packetLoss: 0, jitter: 9, roundTripTime: 46, codec: 'audio/opus' }
+    },
+    video: {
+        bitrate: 1000000,
+        packetLoss: 2,
+        frozenPercent: 0,
+        frameRate: 30,
+        resolution: { width: 1280, height: 720 },
+        codec: 'video/VP8',
+        outbound: {
+            bitrate: 900000,
+            packetLoss: 0,
+            jitter: 20,
+            roundTripTime: 48,
+            codec: 'video/VP9',
+            frameRate: 30,
+            resolution: { width: 640, height: 360 },
+            encodings: [{
+                id: '4444',
+                scalabilityMode: 'L1T3',
+                bitrate: 900000,
+                frameRate: 30,
+                resolution: { width: 640, height: 360 },
+                qualityLimitation: 'none'
+            }]
+        }
+    },
+    connection: {
+        roundTripTime: 44,
+        availableOutgoingBitrate: 1800000,
+        localCandidateType: 'srflx',
+        remoteCandidateType: 'host',
+        protocol: 'udp'
+    }
+};
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('SignalingServer', () => {
+    let server: SignalingServer;
+    let url: string;
+    let clients: TestClient[];
+
+    const join = async () => {
+        const joined = await TestClient.join(url);
+        clients.push(joined.client);
+        return joined;
+    };
+
+    // Two clients sharing a private room; `a` created it
+    const joinRoom = async (roomId = 'test-room') => {
+        const a = await join();
+        a.client.send({ type: 'create-room', payload: { roomId } });
+        await a.client.next('room-created');
+
+        const b = await join();
+        b.client.send({ type: 'join-room', payload: { roomId } });
+        await b.client.next('room-joined');
+        await a.client.next('peer-joined');
+        return { a, b };
+    };
+
+    beforeEach(async () => {
+        server = new SignalingServer(TEST_CONFIG);
+        const { port } = await server.start();
+        url = `ws://127.0.0.1:${port}`;
+        clients = [];
+    });
+
+    afterEach(async () => {
+        await Promise.all(clients.map(client => client.close()));
+        await server.stop();
+    });
+
+    it('greets new connections with an id and a resume token', async () => {
+        const { id, resumeToken } = await join();
+        assert.ok(id);
+        assert.ok(resumeToken);
+    });
+
+    it('answers invalid messages with a structured error', async () => {
+        const { client } = await join();
+        client.ws.send('not json');
+        assert.equal((await client.next('error')).payload.code, 'invalid-json');
+
+        client.ws.send(JSON.stringify({ v: 1, type: 'join-room', payload: {} }));
+        assert.equal((await client.next('error')).payload.code, 'invalid-payload');
+    });
+
+    describe('queue', () => {
+        it('matches two compatible clients and makes exactly one the initiator', async () => {
+            const a = await join();
+            const b = await join();
+
+            a.client.send({ type: 'join-queue', payload: { preferences: { language: 'en' } } });
+            assert.equal((await a.client.next('waiting')).payload.position, 1);
+
+            b.client.send({ type: 'join-queue', payload: { preferences: { language: 'en' } } });
+            const [matchedA, matchedB] = await Promise.all([a.client.next('matched'), b.client.next('matched')]);
+
+            assert.equal(matchedA.payload.partnerId, b.id);
+            assert.equal(matchedB.payload.partnerId, a.id);
+            assert.equal(matchedA.payload.roomId, matchedB.payload.roomId);
+            assert.notEqual(matchedA.payload.initiator, matchedB.payload.initiator);
+        });
+
+        it('keeps clients with incompatible media modes waiting', async () => {
+            const a = await join();
+            const b = await join();
+
+            a.client.send({ type: 'join-queue', payload: { preferences: { mediaMode: 'audio' } } });
+            await a.client.next('waiting');
+            b.client.send({ type: 'join-queue', payload: { preferences: { mediaMode: 'video' } } });
+            assert.equal((await b.client.next('waiting')).payload.position, 2);
+            assert.equal(a.client.hasReceived('matched'), false);
+        });
+
+        it('takes a client out of the queue on leave-queue', async () => {
+            const a = await join();
+            const b = await join();
+
+            a.client.send({ type: 'join-queue', payload: {} });
+            await a.client.next('waiting');
+            a.client.send({ type: 'leave-queue' });
+            await a.client.next('left-queue');
+
+            b.client.send({ type: 'join-queue', payload: {} });
+            assert.equal((await b.client.next('waiting')).payload.position, 1);
+        });
+    });
+
+    describe('rooms', () => {
+        it('lets the first visitor of an invite link wait in the room', async () => {
+            const { client } = await join();
+            client.send({ type: 'join-room', payload: { roomId: 'fresh-room' } });
+            assert.equal((await client.next('waiting')).payload.roomId, 'fresh-room');
+        });
+
+        it('introduces a newcomer to everyone already in the room', async () => {
+            const a = await join();
+            a.client.send({ type: 'create-room', payload: { roomId: 'test-room' } });
+            await a.client.next('room-created');
+
+            const b = await join();
+            b.client.send({ type: 'join-room', payload: { roomId: 'test-room' } });
+
+            assert.deepEqual((await b.client.next('room-joined')).payload.participants, [a.id]);
+            assert.equal((await a.client.next('peer-joined')).payload.peerId, b.id);
+        });
+
+        it('rejects duplicate room ids and malformed ones', async () => {
+            const { client } = await join();
+            client.send({ type: 'create-room', payload: { roomId: 'taken-room' } });
+            await client.next('room-created');
+
+            const other = await join();
+            other.client.send({ type: 'create-room', payload: { roomId: 'taken-room' } });
+            assert.equal((await other.client.next('error')).payload.code, 'room-exists');
+
+            other.client.send({ type: 'join-room', payload: { roomId: 'no spaces!' } });
+            assert.equal((await other.client.next('error')).payload.code, 'invalid-room-id');
+        });
+
+        it('turns people away once the room is full', async () => {
+            await joinRoom();
+            const c = await join();
+            c.client.send({ type: 'join-room', payload: { roomId: 'test-room' } });
+            assert.equal((await c.client.next('error')).payload.code, 'room-full');
+        });
+
+        it('keeps a private room open while someone is left in it', async () => {
+            const { a, b } = await joinRoom();
+
+            b.client.send({ type: 'leave-room' });
+            await b.client.next('left-room');
+            const left = await a.client.next('peer-left');
+            assert.equal(left.payload.peerId, b.id);
+            assert.equal(left.payload.roomClosed, false);
+
+            // The freed seat can be taken again
+            const c = await join();
+            c.client.send({ type: 'join-room', payload: { roomId: 'test-room' } });
+            assert.deepEqual((await c.client.next('room-joined')).payload.participants, [a.id]);
+        });
+
+        it('closes a matchmaking room when either side leaves', async () => {
+            const a = await join();
+            const b = await join();
+            a.client.send({ type: 'join-queue', payload: {} });
+            b.client.send({ type: 'join-queue', payload: {} });
+            await Promise.all([a.client.next('matched'), b.client.next('matched')]);
+
+            a.client.send({ type: 'leave-room' });
+            assert.equal((await b.client.next('peer-left')).payload.roomClosed, true);
+        });
+    });
+
+    describe('relay', () => {
+        it('forwards signals between members of the same room', async () => {
+            const { a, b } = await joinRoom();
+            a.client.send({ type: 'signal', payload: { to: b.id, signal: { type: 'offer', sdp: 'v=0' } } });
+
+            const { payload } = await b.client.next('signal');
+            assert.equal(payload.from, a.id);
+            assert.deepEqual(payload.signal, { type: 'offer', sdp: 'v=0' });
+        });
+
+        it('refuses to signal someone outside the room', async () => {
+            const { a } = await joinRoom();
+            const outsider = await join();
+            a.client.send({ type: 'signal', payload: { to: outsider.id, signal: { type: 'offer', sdp: 'v=0' } } });
+
+            assert.equal((await a.client.next('error')).payload.code, 'invalid-signal-target');
+            await outsider.client.sync();
+            assert.equal(outsider.client.hasReceived('signal'), false);
+        });
+
+        it('broadcasts media toggles and quality reports to the partner', async () => {
+            const { a, b } = await joinRoom();
+            a.client.send({ type: 'toggle-media', payload: { type: 'audio', enabled: false } });
+            assert.deepEqual((await b.client.next('partner-media-toggle')).payload, { from: a.id, type: 'audio', enabled: false });
+
+            a.client.send({ type: 'quality-report', payload: { to: b.id, stats: QUALITY_REPORT } });
+            assert.deepEqual((await b.client.next('partner-quality')).payload, { from: a.id, stats: QUALITY_REPORT });
+        });
+
+        it('rejects quality reports missing the fields partners score', async () => {
+            const { a, b } = await joinRoom();
+            const { codec: _codec, ...audio } = QUALITY_REPORT.audio;
+            a.client.ws.send(JSON.stringify({ v: 1, type: 'quality-report', payload: { to: b.id, stats: { ...QUALITY_REPORT, audio } } }));
+
+            assert.equal((await a.client.next('error')).payload.code, 'invalid-payload');
+            await b.client.sync();
+            assert.equal(b.client.hasReceived('partner-quality'), false);
+        });
+    });
+
+    describe('resume', () => {
+        it('restores the room and replays what was missed within the grace period', async () => {
+            const { a, b } = await joinRoom();
+
+            await a.client.close();
+            b.client.send({ type: 'toggle-media', payload: { type: 'video', enabled: false } });
+            await b.client.sync();
+
+            const returning = await join();
+            returning.client.send({ type: 'resume', payload: { resumeToken: a.resumeToken } });
+
+            const { payload } = await returning.client.next('resumed');
+            assert.equal(payload.clientId, a.id);
+            assert.equal(payload.roomId, 'test-room');
+            assert.deepEqual(payload.participants, [b.id]);
+            assert.notEqual(payload.resumeToken, a.resumeToken);
+            assert.equal((await returning.client.next('partner-media-toggle')).payload.from, b.id);
+
+            // The partner never heard about the drop
+            assert.equal(b.client.hasReceived('peer-left'), false);
+
+            // And the session is reachable under its old id again
+            b.client.send({ type: 'signal', payload: { to: a.id, signal: { type: 'answer', sdp: 'v=0' } } });
+            assert.equal((await returning.client.next('signal')).payload.from, b.id);
+        });
+
+        it('only accepts each resume token once', async () => {
+            const { a } = await joinRoom();
+            await a.client.close();
+
+            const first = await join();
+            first.client.send({ type: 'resume', payload: { resumeToken: a.resumeToken } });
+            await first.client.next('resumed');
+
+            const second = await join();
+            second.client.send({ type: 'resume', payload: { resumeToken: a.resumeToken } });
+            assert.equal((await second.client.next('error')).payload.code, 'resume-failed');
+        });
+
+        it('tells the room and forgets the session once the grace period is over', async () => {
+            const { a, b } = await joinRoom();
+            await a.client.close();
+
+            const left = await b.client.next('peer-left');
+            assert.equal(left.payload.peerId, a.id);
+
+            const returning = await join();
+            returning.client.send({ type: 'resume', payload: { resumeToken: a.resumeToken } });
+            assert.equal((await returning.client.next('error')).payload.code, 'resume-failed');
+        });
+
+        it('does not suspend clients that were not in a room', async () => {
+            const a = await join();
+            await a.client.close();
+            await delay(50);
+
+            const returning = await join();
+            returning.client.send({ type: 'resume', payload: { resumeToken: a.resumeToken } });
+            assert.equal((await returning.client.next('error')).payload.code, 'resume-failed');
+        });
+    });
+});
+
+describe('SignalingServer.stop', () => {
+    let server: SignalingServer;
+    let url: string;
+
+    before(async () => {
+        server = new SignalingServer(TEST_CONFIG);
+        const { port } = await server.start();
+        url = `ws://127.0.0.1:${port}`;
+    });
+
+    after(async () => {
+        // stop() must be safe to call on a server that already stopped
+        await server.stop();
+    });
+
+    it('closes connected and suspended clients and stops accepting new ones', async () => {
+        const roomOwner = await TestClient.join(url);
+        roomOwner.client.send({ type: 'create-room', payload: { roomId: 'stop-room' } });
+        await roomOwner.client.next('room-created');
+        const dropped = await TestClient.join(url);
+        dropped.client.send({ type: 'join-room', payload: { roomId: 'stop-room' } });
+        await dropped.client.next('room-joined');
+        // Leaves a pending resume timer behind, which stop() has to clear
+        await dropped.client.close();
+
+        const closed = new Promise<void>(resolve => roomOwner.client.ws.once('close', () => resolve()));
+        await server.stop();
+        await closed;
+
+        await assert.rejects(TestClient.connect(url));
+    });
+});
@@ -0,0 +1,565 @@
+// server/SignalingServer.ts - WebSocket signaling server with matchmaking and rooms
+import express, { Express } from 'express';
+import crypto from 'crypto';
+import http from 'http';
+import path from 'path';
+import cors from 'cors';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { ClientMessage, PROTOCOL_VERSION, PayloadOf, ServerStats, parseMessage } from '../shared/protocol.js';
+import MatchQueue from './MatchQueue.js';
+import RoomManager, { isValidRoomId } from './RoomManager.js';
+import MessageRelay, { send, sendError } from './MessageRelay.js';
+import { createTurnServer } from './turnCredentials.js';
+import type { IceServersResponse } from '../src/types.js';
+import type { Client, ServerRoom, SignalingServerConfig } from './types.js';
+
+export const DEFAULT_CONFIG: SignalingServerConfig = {
+    port: 8080,
+    staticDir: null,
+    stunServers: [
+        'stun:stun.l.google.com:19302',
+        'stun:stun1.l.google.com:19302',
+        'stun:stun2.l.google.com:19302',
+        'stun:stun3.l.google.com:19302',
+        'stun:stun4.l.google.com:19302'
+    ],
+    turn: null,
+    heartbeatInterval: 30000,
+    resumeGracePeriod: 20000,
+    matchInterval: 5000,
+    maxRoomSize: 6,
+    maxRecentPartners: 10,
+    // Matching criteria relax step by step the longer someone has been waiting
+    matchWideningSteps: [
+        { after: 0, language: true, mediaMode: true, topics: true },
+        { after: 10000, language: true, mediaMode: true, topics: false },
+        { after: 30000, language: false, mediaMode: true, topics: false },
+        { after: 60000, language: false, mediaMode: false, topics: false }
+    ],
+    logger: console
+};
+
+export default class SignalingServer {
+    readonly app: Express;
+    private config: SignalingServerConfig;
+    private server: http.Server;
+    private wss: WebSocketServer;
+    private clients = new Map<string, Client>();
+    private sessions = new Map<string, Client>();
+    private sockets = new Map<WebSocket, Client>();
+    private rooms = new RoomManager();
+    private queue: MatchQueue;
+    private relay: MessageRelay;
+    private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+    private matchTimer: ReturnType<typeof setInterval> | null = null;
+
+    constructor(config: Partial<SignalingServerConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        this.queue = new MatchQueue(this.config);
+        this.relay = new MessageRelay(this.clients, this.rooms);
+
+        this.app = this.createApp();
+        this.server = http.createServer(this.app);
+        this.wss = new WebSocketServer({ server: this.server });
+        this.wss.on('connection', (ws, req) => this.handleConnection(ws, req.socket.remoteAddress));
+    }
+
+    /** Starts listening and resolves with the bound address (useful with port 0) */
+    start(): Promise<AddressInfo> {
+        return new Promise((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(this.config.port, this.config.host, () => {
+                this.server.off('error', reject);
+                this.heartbeatTimer = setInterval(() => this.checkHeartbeats(), this.config.heartbeatInterval);
+                this.matchTimer = setInterval(() => this.matchWaitingClients(), this.config.matchInterval);
+                resolve(this.server.address() as AddressInfo);
+            });
+        });
+    }
+
+    /** Closes every client socket and stops the HTTP server */
+    stop(): Promise<void> {
+        if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+        if (this.matchTimer) clearInterval(this.matchTimer);
+        this.heartbeatTimer = null;
+        this.matchTimer = null;
+
+        this.clients.forEach(client => {
+            if (client.resumeTimer) clearTimeout(client.resumeTimer);
+            client.resumeTimer = null;
+        });
+        this.wss.clients.forEach(ws => ws.terminate());
+
+        return new Promise((resolve, reject) => {
+            this.wss.close(() => {
+                if (!this.server.listening) {
+                    resolve();
+                    return;
+                }
+                this.server.close(error => error ? reject(error) : resolve());
+            });
+        });
+    }
+
+    private get logger() {
+        return this.config.logger;
+    }
+
+    private createApp(): Express {
+        const app = express();
+
+        // Middleware
+        app.use(cors());
+        app.use(express.json());
+
+        // Health check endpoint
+        app.get('/api/health', (_req, res) => {
+            res.json({
+                status: 'healthy',
+                connections: this.clients.size,
+                rooms: this.rooms.size,
+                waiting: this.queue.size,
+                timestamp: new Date().toISOString()
+            });
+        });
+
+        // TURN server configuration endpoint
+        app.get('/api/ice-servers', (req, res) => {
+            const { stunServers, turn } = this.config;
+            const response: IceServersResponse = {
+                iceServers: stunServers.map(urls => ({ urls }))
+            };
+
+            // Fresh TURN credentials per request; the client refetches before `ttl` runs out
+            if (turn) {
+                const user = typeof req.query.user === 'string' ? req.query.user : undefined;
+                response.iceServers.push(createTurnServer(turn, user));
+                response.ttl = turn.ttl;
+            }
+
+            res.json(response);
+        });
+
+        // Serve React app
+        const { staticDir } = this.config;
+        if (staticDir) {
+            app.use(express.static(staticDir));
+            app.get('*', (_req, res) => {
+                res.sendFile(path.join(staticDir, 'index.html'));
+            });
+        }
+
+        return app;
+    }
+
+    private handleConnection(ws: WebSocket, clientIp: string | undefined): void {
+        const clientId = generateId();
+
+        this.logger.log(`[Server] New connection: ${clientId} from ${clientIp}`);
+
+        const client: Client = {
+            id: clientId,
+            ws,
+            room: null,
+            resumeToken: generateResumeToken(),
+            resumeTimer: null,
+            outbox: [],
+            isAlive: true,
+            preferences: null,
+            queuedAt: 0,
+            recentPartners: [],
+            stats: {
+                connectedAt: Date.now(),
+                lastActivity: Date.now(),
+                messagesExchanged: 0
+            }
+        };
+
+        this.clients.set(clientId, client);
+        this.sessions.set(client.resumeToken, client);
+        this.sockets.set(ws, client);
+
+        // Send initial connection info
+        send(client, {
+            type: 'connected',
+            payload: { clientId, resumeToken: client.resumeToken, protocolVersion: PROTOCOL_VERSION, timestamp: Date.now() }
+        });
+
+        // Socket handlers look the client up on every event, because a
+        // `resume` re-points this socket at the session it is taking over
+        ws.on('pong', () => {
+            const current = this.sockets.get(ws);
+            if (current) current.isAlive = true;
+        });
+
+        ws.on('message', (data) => {
+            const current = this.sockets.get(ws);
+            if (!current) return;
+
+            const result = parseMessage(data.toString(), 'client');
+            if (!result.ok) {
+                this.logger.warn(`[Server] Rejected message from ${current.id}: ${result.error.message}`);
+                send(current, { type: 'error', payload: result.error });
+                return;
+            }
+
+            current.stats.lastActivity = Date.now();
+            current.stats.messagesExchanged++;
+
+            this.handleMessage(current, result.message);
+        });
+
+        ws.on('close', (code, reason) => {
+            const current = this.sockets.get(ws);
+            this.sockets.delete(ws);
+            if (!current) return;
+
+            this.logger.log(`[Server] Client disconnected: ${current.id}, code: ${code}, reason: ${reason}`);
+
+            // Someone in a call gets a grace period to come back before the room hears about it
+            if (current.room) {
+                this.suspendSession(current);
+            } else {
+                this.handleDisconnection(current);
+            }
+        });
+
+        ws.on('error', (error) => {
+            this.logger.error(`[Server] WebSocket error for ${this.sockets.get(ws)?.id ?? clientId}:`, error);
+        });
+    }
+
+    // Message handling. Messages reaching this point have passed protocol validation.
+    private handleMessage(client: Client, message: ClientMessage): void {
+        switch (message.type) {
+            case 'join-queue':
+                this.handleJoinQueue(client, message.payload);
+                break;
+
+            case 'leave-queue':
+                this.handleLeaveQueue(client);
+                break;
+
+            case 'create-room':
+                this.handleCreateRoom(client, message.payload);
+                break;
+
+            case 'join-room':
+                this.handleJoinRoom(client, message.payload);
+                break;
+
+            case 'leave-room':
+                this.handleLeaveRoom(client);
+                break;
+
+            case 'signal':
+                this.relay.relaySignal(client, message.payload);
+                break;
+
+            case 'quality-report':
+                this.relay.relayQualityReport(client, message.payload);
+                break;
+
+            case 'toggle-media':
+                this.relay.relayMediaToggle(client, message.payload);
+                break;
+
+            case 'recording-state':
+                this.relay.relayRecordingState(client, message.payload);
+                break;
+
+            case 'request-stats':
+                this.handleStatsRequest(client);
+                break;
+
+            case 'heartbeat':
+                send(client, { type: 'heartbeat-ack', payload: { timestamp: Date.now() } });
+                break;
+
+            case 'resume':
+                this.handleResume(client, message.payload);
+                break;
+
+            case 'error':
+                this.logger.warn(`[Server] Client ${client.id} reported ${message.payload.code}: ${message.payload.message}`);
+                break;
+        }
+    }
+
+    // Queue management
+    private handleJoinQueue(client: Client, { preferences }: PayloadOf<'join-queue'>): void {
+        const position = this.queue.add(client, preferences);
+        const match = this.queue.findMatch(client);
+
+        if (match) {
+            this.queue.remove(client);
+            this.queue.remove(match);
+            this.startCall(client, match);
+        } else {
+            send(client, {
+                type: 'waiting',
+                payload: { position, timestamp: Date.now() }
+            });
+
+            this.logger.log(`[Server] Client ${client.id} joined queue. Queue size: ${this.queue.size}`);
+        }
+    }
+
+    private handleLeaveQueue(client: Client): void {
+        if (this.queue.remove(client)) {
+            send(client, { type: 'left-queue' });
+            this.logger.log(`[Server] Client ${client.id} left queue`);
+        }
+    }
+
+    private matchWaitingClients(): void {
+        this.queue.takeMatches().forEach(([client, match]) => this.startCall(client, match));
+    }
+
+    // Pairs two matched clients in a fresh room and tells them to start negotiating
+    private startCall(client1: Client, client2: Client): void {
+        this.queue.rememberPair(client1, client2);
+
+        const room = this.rooms.create();
+        room.participants.push(client1.id, client2.id);
+        client1.room = room.id;
+        client2.room = room.id;
+
+        send(client1, {
+            type: 'matched',
+            payload: { partnerId: client2.id, roomId: room.id, initiator: true, timestamp: Date.now() }
+        });
+
+        send(client2, {
+            type: 'matched',
+            payload: { partnerId: client1.id, roomId: room.id, initiator: false, timestamp: Date.now() }
+        });
+
+        this.logger.log(`[Server] Call started in room ${room.id} with ${client1.id} and ${client2.id}`);
+    }
+
+    // Private rooms
+    private handleCreateRoom(client: Client, payload: PayloadOf<'create-room'>): void {
+        const roomId = payload.roomId || this.rooms.generateSlug();
+
+        if (!isValidRoomId(roomId)) {
+            sendError(client, 'invalid-room-id', 'Room IDs must be 3-64 letters, digits or dashes');
+            return;
+        }
+
+        if (this.rooms.has(roomId)) {
+            sendError(client, 'room-exists', `Room ${roomId} already exists`);
+            return;
+        }
+
+        this.leaveCurrentSession(client);
+
+        const room = this.rooms.create(roomId, { isPrivate: true });
+        room.participants.push(client.id);
+        client.room = roomId;
+
+        send(client, {
+            type: 'room-created',
+            payload: { roomId, timestamp: Date.now() }
+        });
+
+        this.logger.log(`[Server] Private room created: ${roomId} by ${client.id}`);
+    }
+
+    private handleJoinRoom(client: Client, { roomId }: PayloadOf<'join-room'>): void {
+        if (!isValidRoomId(roomId)) {
+            sendError(client, 'invalid-room-id', 'Room IDs must be 3-64 letters, digits or dashes');
+            return;
+        }
+
+        if (client.room === roomId) return;
+
+        const existing = this.rooms.get(roomId);
+        if (existing && !existing.isPrivate) {
+            sendError(client, 'room-not-found', `Room ${roomId} does not exist`);
+            return;
+        }
+        if (existing && existing.participants.length >= this.config.maxRoomSize) {
+            sendError(client, 'room-full', `Room ${roomId} is full`);
+            return;
+        }
+
+        this.leaveCurrentSession(client);
+
+        // The first person to open an invite link creates the room and waits for the others
+        const room = existing || this.rooms.create(roomId, { isPrivate: true });
+        const others = [...room.participants];
+        room.participants.push(client.id);
+        client.room = roomId;
+
+        if (others.length === 0) {
+            send(client, {
+                type: 'waiting',
+                payload: { roomId, timestamp: Date.now() }
+            });
+            this.logger.log(`[Server] Client ${client.id} waiting in room ${roomId}`);
+            return;
+        }
+
+        // The newcomer initiates a peer connection to everyone already in the room
+        send(client, {
+            type: 'room-joined',
+            payload: { roomId, participants: others, timestamp: Date.now() }
+        });
+
+        this.relay.broadcast(room, client, {
+            type: 'peer-joined',
+            payload: { peerId: client.id, timestamp: Date.now() }
+        });
+
+        this.logger.log(`[Server] Client ${client.id} joined room ${roomId} (${room.participants.length}/${this.config.maxRoomSize})`);
+    }
+
+    private handleLeaveRoom(client: Client): void {
+        if (!client.room) return;
+
+        this.leaveCurrentSession(client);
+        send(client, { type: 'left-room' });
+    }
+
+    // Stats request
+    private handleStatsRequest(client: Client): void {
+        const stats: ServerStats = {
+            connectionDuration: Date.now() - client.stats.connectedAt,
+            messagesExchanged: client.stats.messagesExchanged,
+            serverTime: Date.now(),
+            totalConnections: this.clients.size,
+            totalRooms: this.rooms.size
+        };
+
+        const room = this.rooms.get(client.room);
+        if (room) {
+            stats.roomDuration = Date.now() - room.createdAt;
+            stats.roomQuality = room.stats.quality;
+        }
+
+        send(client, {
+            type: 'stats-response',
+            payload: stats
+        });
+    }
+
+    // Session resumption
+    private suspendSession(client: Client): void {
+        this.queue.remove(client);
+
+        client.resumeTimer = setTimeout(() => {
+            client.resumeTimer = null;
+            this.logger.log(`[Server] Session ${client.id} was not resumed in time`);
+            this.handleDisconnection(client);
+        }, this.config.resumeGracePeriod);
+
+        this.logger.log(`[Server] Session ${client.id} suspended for ${this.config.resumeGracePeriod}ms`);
+    }
+
+    // `client` is the throwaway session created for the new socket; on success
+    // the socket is moved over to the old session and the throwaway is dropped
+    private handleResume(client: Client, { resumeToken }: PayloadOf<'resume'>): void {
+        const session = this.sessions.get(resumeToken);
+        if (!session || session === client) {
+            sendError(client, 'resume-failed', 'Session expired or unknown');
+            return;
+        }
+
+        if (session.resumeTimer) {
+            clearTimeout(session.resumeTimer);
+            session.resumeTimer = null;
+        }
+
+        // The old socket may not have noticed the drop yet, so take over from it
+        const staleWs = session.ws;
+        this.sockets.delete(staleWs);
+        if (staleWs !== client.ws) staleWs.terminate();
+
+        session.ws = client.ws;
+        session.isAlive = true;
+        this.sockets.set(client.ws, session);
+
+        this.clients.delete(client.id);
+        this.sessions.delete(client.resumeToken);
+
+        // Tokens are single-use
+        this.sessions.delete(session.resumeToken);
+        session.resumeToken = generateResumeToken();
+        this.sessions.set(session.resumeToken, session);
+
+        const room = this.rooms.get(session.room);
+        send(session, {
+            type: 'resumed',
+            payload: {
+                clientId: session.id,
+                resumeToken: session.resumeToken,
+                roomId: room ? room.id : null,
+                participants: room ? room.participants.filter(id => id !== session.id) : [],
+                timestamp: Date.now()
+            }
+        });
+
+        // Deliver whatever the room sent while we were away
+        const outbox = session.outbox;
+        session.outbox = [];
+        outbox.forEach(message => send(session, message));
+
+        this.logger.log(`[Server] Session ${session.id} resumed`);
+    }
+
+    // Disconnection handling
+    private handleDisconnection(client: Client): void {
+        this.leaveCurrentSession(client);
+        this.clients.delete(client.id);
+        this.sessions.delete(client.resumeToken);
+    }
+
+    // Takes a client out of the queue and out of any room, notifying whoever is left
+    private leaveCurrentSession(client: Client): void {
+        this.queue.remove(client);
+
+        const result = this.rooms.leave(client.room, client.id);
+        client.room = null;
+        if (!result) return;
+
+        const { room, roomClosed } = result;
+        this.relay.broadcast(room, client, {
+            type: 'peer-left',
+            payload: { peerId: client.id, roomClosed, timestamp: Date.now() }
+        });
+
+        if (roomClosed) {
+            this.releaseParticipants(room);
+            this.logger.log(`[Server] Room ${room.id} ended. Duration: ${room.stats.duration}ms`);
+        }
+    }
+
+    private releaseParticipants(room: ServerRoom): void {
+        room.participants.forEach(id => {
+            const participant = this.clients.get(id);
+            if (participant) participant.room = null;
+        });
+    }
+
+    private checkHeartbeats(): void {
+        this.clients.forEach(client => {
+            if (client.resumeTimer) return;
+            if (!client.isAlive) {
+                client.ws.terminate();
+                return;
+            }
+            client.isAlive = false;
+            client.ws.ping();
+        });
+    }
+}
+
+function generateResumeToken(): string {
+    return crypto.randomBytes(24).toString('base64url');
+}
+
+function generateId(): string {
+    return `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
@@ -0,0 +1,30 @@
+// server/index.ts - Starts the signaling server from environment configuration
+import path from 'path';
+import SignalingServer from './SignalingServer.js';
+import { readTurnConfig } from './turnCredentials.js';
+
+const port = Number(process.env.PORT) || 8080;
+const staticDir = process.env.STATIC_DIR || path.resolve(process.cwd(), 'dist');
+const turn = readTurnConfig(process.env);
+
+const server = new SignalingServer({ port, staticDir, turn });
+
+server.start().then(({ port: boundPort }) => {
+    console.log(`
+    ╔═══════════════════════════════════════════╗
+    ║   Starlight VoIP Pro Server v2.0         ║
+    ║   Running on http://localhost:${boundPort}       ║
+    ║   WebSocket: ws://localhost:${boundPort}         ║
+    ╚═══════════════════════════════════════════╝
+    `);
+}).catch((error) => {
+    console.error('[Server] Failed to start:', error);
+    process.exit(1);
+});
+
+// Cleanup on server shutdown
+const shutdown = () => {
+    server.stop().finally(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
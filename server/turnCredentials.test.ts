@@ -0,0 +1,128 @@
+// server/turnCredentials.test.ts - TURN REST API credentials and the /api/ice-servers route
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import SignalingServer from './SignalingServer.js';
+import { createTurnCredentials, createTurnServer, readTurnConfig } from './turnCredentials.js';
+import type { IceServersResponse } from '../src/types.js';
+import type { SignalingServerConfig, TurnConfig } from './types.js';
+
+const NOW = 1700000000000;
+
+const TURN: TurnConfig = {
+    uris: ['turn:turn.example.com:3478?transport=udp', 'turns:turn.example.com:5349'],
+    secret: 'north-secret',
+    ttl: 3600
+};
+
+describe('createTurnCredentials', () => {
+    it('names the user after the expiry time in seconds', () => {
+        const { username, expiresAt } = createTurnCredentials('north-secret', 3600, 'alice', NOW);
+
+        assert.equal(expiresAt, 1700003600);
+        assert.equal(username, '1700003600:alice');
+    });
+
+    it('falls back to an anonymous user', () => {
+        const { username } = createTurnCredentials('north-secret', 3600, undefined, NOW);
+        assert.equal(username, '1700003600:anonymous');
+    });
+
+    it('signs the username with base64 HMAC-SHA1 of the shared secret', () => {
+        // printf '1700003600:alice' | openssl dgst -sha1 -hmac north-secret -binary | base64
+        const { credential } = createTurnCredentials('north-secret', 3600, 'alice', NOW);
+        assert.equal(credential, 'Ji4axghh2/aljHmsPgH9mtDGVLw=');
+    });
+
+    it('expires after the TTL, rounding the current time down to whole seconds', () => {
+        assert.equal(createTurnCredentials('north-secret', 60, 'alice', NOW + 999).expiresAt, 1700000060);
+        assert.equal(createTurnCredentials('north-secret', 86400, 'alice', NOW).expiresAt, 1700086400);
+    });
+});
+
+describe('createTurnServer', () => {
+    it('offers every configured URI with one set of credentials', () => {
+        const server = createTurnServer(TURN, 'alice', NOW);
+
+        assert.deepEqual(server, {
+            urls: TURN.uris,
+            username: '1700003600:alice',
+            credential: 'Ji4axghh2/aljHmsPgH9mtDGVLw='
+        });
+    });
+});
+
+describe('readTurnConfig', () => {
+    it('is null unless both URIs and a secret are set', () => {
+        assert.equal(readTurnConfig({}), null);
+        assert.equal(readTurnConfig({ TURN_URIS: 'turn:turn.example.com' }), null);
+        assert.equal(readTurnConfig({ TURN_SECRET: 'north-secret' }), null);
+        assert.equal(readTurnConfig({ TURN_URIS: ' , ', TURN_SECRET: 'north-secret' }), null);
+    });
+
+    it('splits and trims the URI list', () => {
+        const config = readTurnConfig({
+            TURN_URIS: 'turn:a.example.com:3478 , turns:b.example.com:5349,',
+            TURN_SECRET: 'north-secret',
+            TURN_TTL: '600'
+        });
+
+        assert.deepEqual(config, {
+            uris: ['turn:a.example.com:3478', 'turns:b.example.com:5349'],
+            secret: 'north-secret',
+            ttl: 600
+        });
+    });
+
+    it('uses an hour when TURN_TTL is missing or invalid', () => {
+        for (const TURN_TTL of [undefined, '', 'soon', '0', '-5']) {
+            const config = readTurnConfig({ TURN_URIS: 'turn:a.example.com', TURN_SECRET: 'north-secret', TURN_TTL });
+            assert.equal(config?.ttl, 3600);
+        }
+    });
+});
+
+describe('GET /api/ice-servers', () => {
+    let server: SignalingServer | null = null;
+
+    const fetchIceServers = async (config: Partial<SignalingServerConfig>, query = ''): Promise<IceServersResponse> => {
+        server = new SignalingServer({
+            port: 0,
+            host: '127.0.0.1',
+            stunServers: ['stun:stun.example.com:3478'],
+            logger: { log: () => {}, warn: () => {}, error: () => {} },
+            ...config
+        });
+        const { port } = await server.start();
+        const response = await fetch(`http://127.0.0.1:${port}/api/ice-servers${query}`);
+        assert.equal(response.status, 200);
+        return response.json();
+    };
+
+    afterEach(async () => {
+        await server?.stop();
+        server = null;
+    });
+
+    it('offers only STUN, without a ttl, when TURN is not configured', async () => {
+        const response = await fetchIceServers({ turn: readTurnConfig({}) });
+
+        assert.deepEqual(response, { iceServers: [{ urls: 'stun:stun.example.com:3478' }] });
+    });
+
+    it('adds fresh TURN credentials for the requesting user and their ttl', async () => {
+        const before = Math.floor(Date.now() / 1000);
+        const response = await fetchIceServers({ turn: TURN }, '?user=alice');
+        const after = Math.floor(Date.now() / 1000);
+
+        assert.equal(response.ttl, 3600);
+        assert.equal(response.iceServers.length, 2);
+        assert.deepEqual(response.iceServers[0], { urls: 'stun:stun.example.com:3478' });
+
+        const turn = response.iceServers[1];
+        assert.deepEqual(turn.urls, TURN.uris);
+        const [expiry, user] = String(turn.username).split(':');
+        assert.equal(user, 'alice');
+        assert.ok(Number(expiry) >= before + 3600 && Number(expiry) <= after + 3600);
+        assert.equal(turn.credential, createTurnCredentials(TURN.secret, TURN.ttl, 'alice', Number(expiry) * 1000 - TURN.ttl * 1000).credential);
+    });
+});
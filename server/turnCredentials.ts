@@ -0,0 +1,44 @@
+// server/turnCredentials.ts - Time-limited TURN credentials (TURN REST API shared-secret scheme)
+//
+// The TURN server (e.g. coturn with `use-auth-secret`) shares `secret` with us
+// and accepts any username of the form `<expiry>:<user>` whose password is
+// base64(HMAC-SHA1(secret, username)), until the expiry timestamp passes.
+import crypto from 'crypto';
+import type { TurnConfig } from './types.js';
+
+export interface TurnCredentials {
+    username: string;
+    credential: string;
+    /** Unix time in seconds after which the TURN server rejects the credentials */
+    expiresAt: number;
+}
+
+export function createTurnCredentials(
+    secret: string,
+    ttl: number,
+    user = 'anonymous',
+    now = Date.now()
+): TurnCredentials {
+    const expiresAt = Math.floor(now / 1000) + ttl;
+    const username = `${expiresAt}:${user}`;
+    const credential = crypto.createHmac('sha1', secret).update(username).digest('base64');
+
+    return { username, credential, expiresAt };
+}
+
+export function createTurnServer(config: TurnConfig, user?: string, now?: number): RTCIceServer {
+    const { username, credential } = createTurnCredentials(config.secret, config.ttl, user, now);
+    return { urls: config.uris, username, credential };
+}
+
+/** Reads TURN_URIS (comma separated), TURN_SECRET and TURN_TTL; null unless both URIs and secret are set */
+export function readTurnConfig(env: NodeJS.ProcessEnv): TurnConfig | null {
+    const uris = (env.TURN_URIS ?? '').split(',').map(uri => uri.trim()).filter(Boolean);
+    const secret = env.TURN_SECRET;
+    if (uris.length === 0 || !secret) return null;
+
+    const ttl = Number(env.TURN_TTL);
+    return { uris, secret, ttl: ttl > 0 ? ttl : DEFAULT_TURN_TTL };
+}
+
+const DEFAULT_TURN_TTL = 3600;
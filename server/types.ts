@@ -0,0 +1,83 @@
+// server/types.ts - Shared types for the signaling server
+import type { WebSocket } from 'ws';
+import type { ServerMessage } from '../shared/protocol.js';
+import type { CallStats, MatchMediaMode } from '../src/types.js';
+
+export interface Logger {
+    log: (...args: unknown[]) => void;
+    warn: (...args: unknown[]) => void;
+    error: (...args: unknown[]) => void;
+}
+
+export interface MatchWideningStep {
+    /** Milliseconds the longer-waiting of two clients must have queued before this step applies */
+    after: number;
+    language: boolean;
+    mediaMode: boolean;
+    topics: boolean;
+}
+
+export interface TurnConfig {
+    uris: string[];
+    /** Shared secret configured on the TURN server */
+    secret: string;
+    /** Credential lifetime in seconds */
+    ttl: number;
+}
+
+export interface SignalingServerConfig {
+    /** Port to listen on; 0 picks a free one */
+    port: number;
+    host?: string;
+    /** Directory with the built React app, or null to serve only the API and WebSocket */
+    staticDir: string | null;
+    stunServers: string[];
+    /** TURN relay handed out with ephemeral credentials, or null for STUN only */
+    turn: TurnConfig | null;
+    heartbeatInterval: number;
+    /** How long a dropped client's room membership survives waiting for a `resume` */
+    resumeGracePeriod: number;
+    matchInterval: number;
+    maxRoomSize: number;
+    maxRecentPartners: number;
+    matchWideningSteps: MatchWideningStep[];
+    logger: Logger;
+}
+
+export interface NormalizedPreferences {
+    language: string | null;
+    topics: string[];
+    mediaMode: MatchMediaMode;
+    avoidRecentPartners: number;
+}
+
+export interface Client {
+    id: string;
+    ws: WebSocket;
+    room: string | null;
+    resumeToken: string;
+    /** Set while the socket is gone and the session waits to be resumed */
+    resumeTimer: ReturnType<typeof setTimeout> | null;
+    /** Messages that arrived while suspended, delivered on resume */
+    outbox: ServerMessage[];
+    isAlive: boolean;
+    preferences: NormalizedPreferences | null;
+    queuedAt: number;
+    recentPartners: string[];
+    stats: {
+        connectedAt: number;
+        lastActivity: number;
+        messagesExchanged: number;
+    };
+}
+
+export interface ServerRoom {
+    id: string;
+    participants: string[];
+    isPrivate: boolean;
+    createdAt: number;
+    stats: {
+        duration: number;
+        quality: Record<string, CallStats>;
+    };
+}
@@ -0,0 +1,248 @@
+// shared/protocol.ts - Signaling protocol shared by the browser client and the server
+//
+// Every message on the signaling socket is a JSON envelope of the form
+// { v: PROTOCOL_VERSION, type, payload }. Both ends validate incoming
+// envelopes with parseMessage and answer bad ones with a structured `error`.
+import type SimplePeer from 'simple-peer';
+import type { CallStats, MatchPreferences } from '../src/types.js';
+
+export const PROTOCOL_VERSION = 1;
+
+// 'screen' announces that the video being sent is (or includes) a screen share
+export type MediaKind = 'audio' | 'video' | 'screen';
+
+export interface ProtocolError {
+    code: string;
+    message: string;
+}
+
+export type ClientMessage =
+    | { type: 'join-queue'; payload: { preferences?: MatchPreferences } }
+    | { type: 'leave-queue'; payload?: undefined }
+    | { type: 'create-room'; payload: { roomId?: string } }
+    | { type: 'join-room'; payload: { roomId: string } }
+    | { type: 'leave-room'; payload?: undefined }
+    | { type: 'signal'; payload: { to: string; signal: SimplePeer.SignalData } }
+    | { type: 'quality-report'; payload: { to: string; stats: CallStats } }
+    | { type: 'toggle-media'; payload: { type: MediaKind; enabled: boolean } }
+    | { type: 'recording-state'; payload: { recording: boolean } }
+    | { type: 'request-stats'; payload?: undefined }
+    | { type: 'heartbeat'; payload?: undefined }
+    | { type: 'resume'; payload: { resumeToken: string } }
+    | { type: 'error'; payload: ProtocolError };
+
+/** The payload of one kind of client message, for the handlers that receive it */
+export type PayloadOf<T extends ClientMessage['type']> = Extract<ClientMessage, { type: T }>['payload'];
+
+export interface ServerStats {
+    connectionDuration: number;
+    messagesExchanged: number;
+    serverTime: number;
+    totalConnections: number;
+    totalRooms: number;
+    roomDuration?: number;
+    roomQuality?: Record<string, CallStats>;
+}
+
+export type ServerMessage =
+    | { type: 'connected'; payload: { clientId: string; resumeToken: string; protocolVersion: number; timestamp: number } }
+    | { type: 'resumed'; payload: { clientId: string; resumeToken: string; roomId: string | null; participants: string[]; timestamp: number } }
+    | { type: 'waiting'; payload: { position?: number; roomId?: string; timestamp: number } }
+    | { type: 'left-queue'; payload?: undefined }
+    | { type: 'room-created'; payload: { roomId: string; timestamp: number } }
+    | { type: 'room-joined'; payload: { roomId: string; participants: string[]; timestamp: number } }
+    | { type: 'left-room'; payload?: undefined }
+    | { type: 'matched'; payload: { partnerId: string; roomId: string; initiator: boolean; timestamp: number } }
+    | { type: 'peer-joined'; payload: { peerId: string; timestamp: number } }
+    | { type: 'peer-left'; payload: { peerId: string; roomClosed: boolean; timestamp: number } }
+    | { type: 'signal'; payload: { from: string; signal: SimplePeer.SignalData } }
+    | { type: 'partner-quality'; payload: { from: string; stats: CallStats } }
+    | { type: 'partner-media-toggle'; payload: { from: string; type: MediaKind; enabled: boolean } }
+    | { type: 'partner-recording'; payload: { from: string; recording: boolean } }
+    | { type: 'stats-response'; payload: ServerStats }
+    | { type: 'heartbeat-ack'; payload: { timestamp: number } }
+    | { type: 'error'; payload: ProtocolError };
+
+export type SignalingMessage = ClientMessage | ServerMessage;
+
+export type MessageSender = 'client' | 'server';
+
+type MessageFrom<S extends MessageSender> = S extends 'client' ? ClientMessage : ServerMessage;
+
+export type ParseResult<M> =
+    | { ok: true; message: M }
+    | { ok: false; error: ProtocolError };
+
+// Payload validators, also used for the peer-to-peer data channel protocol
+export type Validator = (value: unknown) => boolean;
+
+export const isString: Validator = (value) => typeof value === 'string';
+export const isNumber: Validator = (value) => typeof value === 'number' && Number.isFinite(value);
+export const isBoolean: Validator = (value) => typeof value === 'boolean';
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+export const isUndefined: Validator = (value) => value === undefined;
+
+export const optional = (check: Validator): Validator => (value) => value === undefined || check(value);
+export const oneOf = (...values: unknown[]): Validator => (value) => values.includes(value);
+export const arrayOf = (check: Validator): Validator => (value) => Array.isArray(value) && value.every(check);
+
+export const shape = (fields: Record<string, Validator>): Validator => (value) =>
+    isObject(value) && Object.entries(fields).every(([key, check]) => check(value[key]));
+
+const matchPreferences = shape({
+    language: optional(isString),
+    topics: optional(arrayOf(isString)),
+    mediaMode: optional(oneOf('audio', 'video')),
+    avoidRecentPartners: optional(isNumber)
+});
+
+// Partner reports feed straight into quality scoring, so every field is checked
+const resolution = shape({ width: isNumber, height: isNumber });
+
+const outboundStats = {
+    bitrate: isNumber,
+    packetLoss: isNumber,
+    jitter: isNumber,
+    roundTripTime: isNumber,
+    codec: isString
+};
+
+const encodingStats = shape({
+    id: isString,
+    scalabilityMode: (value) => value === null || isString(value),
+    bitrate: isNumber,
+    frameRate: isNumber,
+    resolution,
+    qualityLimitation: isString
+});
+
+const callStats = shape({
+    audio: shape({
+        bitrate: isNumber,
+        packetLoss: isNumber,
+        jitter: isNumber,
+        codec: isString,
+        outbound: shape(outboundStats)
+    }),
+    video: shape({
+        bitrate: isNumber,
+        packetLoss: isNumber,
+        frozenPercent: isNumber,
+        frameRate: isNumber,
+        resolution,
+        codec: isString,
+        outbound: shape({ ...outboundStats, frameRate: isNumber, resolution, encodings: arrayOf(encodingStats) })
+    }),
+    connection: shape({
+        roundTripTime: isNumber,
+        availableOutgoingBitrate: isNumber,
+        localCandidateType: isString,
+        remoteCandidateType: isString,
+        protocol: isString
+    })
+});
+
+const errorPayload = shape({
+    code: isString,
+    message: isString
+});
+
+// Messages sent by the browser client
+const CLIENT_MESSAGES: Record<ClientMessage['type'], Validator> = {
+    'join-queue': shape({ preferences: optional(matchPreferences) }),
+    'leave-queue': isUndefined,
+    'create-room': shape({ roomId: optional(isString) }),
+    'join-room': shape({ roomId: isString }),
+    'leave-room': isUndefined,
+    'signal': shape({ to: isString, signal: isObject }),
+    'quality-report': shape({ to: isString, stats: callStats }),
+    'toggle-media': shape({ type: oneOf('audio', 'video', 'screen'), enabled: isBoolean }),
+    'recording-state': shape({ recording: isBoolean }),
+    'request-stats': isUndefined,
+    'heartbeat': isUndefined,
+    'resume': shape({ resumeToken: isString }),
+    'error': errorPayload
+};
+
+// Messages sent by the signaling server
+const SERVER_MESSAGES: Record<ServerMessage['type'], Validator> = {
+    'connected': shape({ clientId: isString, resumeToken: isString, protocolVersion: isNumber, timestamp: isNumber }),
+    'resumed': shape({
+        clientId: isString,
+        resumeToken: isString,
+        roomId: (value) => value === null || isString(value),
+        participants: arrayOf(isString),
+        timestamp: isNumber
+    }),
+    'waiting': shape({ position: optional(isNumber), roomId: optional(isString), timestamp: isNumber }),
+    'left-queue': isUndefined,
+    'room-created': shape({ roomId: isString, timestamp: isNumber }),
+    'room-joined': shape({ roomId: isString, participants: arrayOf(isString), timestamp: isNumber }),
+    'left-room': isUndefined,
+    'matched': shape({ partnerId: isString, roomId: isString, initiator: isBoolean, timestamp: isNumber }),
+    'peer-joined': shape({ peerId: isString, timestamp: isNumber }),
+    'peer-left': shape({ peerId: isString, roomClosed: isBoolean, timestamp: isNumber }),
+    'signal': shape({ from: isString, signal: isObject }),
+    'partner-quality': shape({ from: isString, stats: callStats }),
+    'partner-media-toggle': shape({ from: isString, type: oneOf('audio', 'video', 'screen'), enabled: isBoolean }),
+    'partner-recording': shape({ from: isString, recording: isBoolean }),
+    'stats-response': shape({
+        connectionDuration: isNumber,
+        messagesExchanged: isNumber,
+        serverTime: isNumber,
+        totalConnections: isNumber,
+        totalRooms: isNumber,
+        roomDuration: optional(isNumber),
+        roomQuality: optional(isObject)
+    }),
+    'heartbeat-ack': shape({ timestamp: isNumber }),
+    'error': errorPayload
+};
+
+const SCHEMAS: Record<MessageSender, Record<string, Validator | undefined>> = {
+    client: CLIENT_MESSAGES,
+    server: SERVER_MESSAGES
+};
+
+export function encodeMessage({ type, payload }: SignalingMessage): string {
+    return JSON.stringify({ v: PROTOCOL_VERSION, type, payload });
+}
+
+// Parses and validates one raw frame sent by `sender`. Never throws: failures
+// come back as { ok: false, error } with a payload ready to be sent as a
+// structured `error` message.
+export function parseMessage<S extends MessageSender>(
+    raw: string | { toString(): string },
+    sender: S
+): ParseResult<MessageFrom<S>> {
+    let data: unknown;
+    try {
+        data = JSON.parse(typeof raw === 'string' ? raw : raw.toString());
+    } catch (e) {
+        return invalid('invalid-json', 'Message is not valid JSON');
+    }
+
+    if (!isObject(data) || typeof data.type !== 'string') {
+        return invalid('invalid-message', 'Message must be an object with a string type');
+    }
+
+    if (data.v !== PROTOCOL_VERSION) {
+        return invalid('unsupported-version', `Unsupported protocol version ${data.v}, expected ${PROTOCOL_VERSION}`);
+    }
+
+    const validate = SCHEMAS[sender][data.type];
+    if (!validate) {
+        return invalid('unknown-type', `Unknown message type: ${data.type}`);
+    }
+
+    if (!validate(data.payload)) {
+        return invalid('invalid-payload', `Invalid payload for ${data.type}`);
+    }
+
+    return { ok: true, message: { type: data.type, payload: data.payload } as MessageFrom<S> };
+}
+
+function invalid(code: string, message: string): { ok: false; error: ProtocolError } {
+    return { ok: false, error: { code, message } };
+}
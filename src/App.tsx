@@ -1,36 +1,126 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { motion, AnimatePresence, useAnimation } from 'framer-motion';
 import { Toaster, toast } from 'react-hot-toast';
-import { useStore } from './store';
+import { initialRemoteMedia, useStore } from './store';
 
 import VoIPController from './lib/VoIPController';
+import CallRecorder, { RecordingLayout, recordingFileName } from './lib/CallRecorder';
+import { downloadBlob } from './lib/download';
+import { getAudioOutputId } from './lib/devices';
 import ConnectionScreen from './components/ConnectionScreen';
 import Participant from './components/Participant';
 import CallControls from './components/CallControls';
 import CallStats from './components/CallStats';
-import { Activity } from 'lucide-react';
+import ChatPanel from './components/ChatPanel';
+import SettingsPanel from './components/SettingsPanel';
+import NetworkQuality from './components/NetworkQuality';
+import ShortcutsOverlay from './components/ShortcutsOverlay';
+import { getRoomIdFromPath, navigateToRoom } from './lib/roomLink';
+import { getParticipantName } from './lib/participants';
+import { ShortcutAction, findShortcut, isTypingTarget } from './lib/shortcuts';
+import { Activity, MessageSquare, Settings2 } from 'lucide-react';
+import { CallQuality, QualityScore } from './types';
+
+// Screen tiles have no speaker highlight
+const ignoreAudioLevel = () => {};
+
+// Side panels all slide in from the right, so only one is open at a time
+type SidePanel = 'stats' | 'chat' | 'settings';
+
+const DEVICE_LABELS: Record<MediaDeviceKind, string> = {
+    audioinput: 'Microphone',
+    videoinput: 'Camera',
+    audiooutput: 'Speaker',
+};
+
+const UNSTABLE: CallQuality[] = ['fair', 'poor'];
+
+// Their end is struggling while ours is fine, so it isn't our Wi-Fi
+const isPartnerBottleneck = ({ link }: QualityScore) =>
+    UNSTABLE.includes(link.remote) && !UNSTABLE.includes(link.local) && link.local !== 'unknown';
+
+// Same tiles as the call view, with screens letterboxed like their Participant tiles
+const getRecordingLayout = (): RecordingLayout => {
+    const { localStream, remoteStreams, remoteScreenStreams, remoteMedia } = useStore.getState();
+    const isInPlaceScreen = (peerId: string) => !!remoteMedia.get(peerId)?.screenSharing && !remoteScreenStreams.has(peerId);
+
+    return {
+        tiles: [
+            ...[...remoteStreams.entries()].map(([peerId, stream]) => ({
+                stream,
+                fit: isInPlaceScreen(peerId) ? 'contain' as const : 'cover' as const,
+            })),
+            ...[...remoteScreenStreams.values()].map(stream => ({ stream, fit: 'contain' as const })),
+        ],
+        local: localStream,
+    };
+};
 
 const App = () => {
     const {
         connectionState,
         localStream,
-        remoteStream,
+        remoteStreams,
         setConnectionState,
         setCallQuality,
+        qualityScore,
+        peerQuality,
+        setPeerQuality,
         setLocalStream,
         setRemoteStream,
         mediaState,
-        toggleAudio,
-        toggleVideo,
+        setAudioEnabled,
+        setVideoEnabled,
+        roomId,
+        setRoomId,
+        matchPreferences,
+        addMessage,
+        setMessageStatus,
+        clearMessages,
+        unreadMessages,
+        upsertTransfer,
+        clearTransfers,
+        updateCallStats,
+        clearStatsHistory,
+        remoteScreenStreams,
+        remoteMedia,
+        setRemoteScreenStream,
+        setRemoteMedia,
+        setScreenSharing,
+        recordingPeers,
+        setRecording,
+        setRemoteRecording,
+        screenShareOptions,
+        setScreenShareOptions,
+        devices,
+        selectedDevices,
+        setDevices,
+        setSelectedDevice,
+        settings,
     } = useStore();
 
     const [isConnecting, setIsConnecting] = useState(false);
     const [localAudioLevel, setLocalAudioLevel] = useState(0);
-    const [remoteAudioLevel, setRemoteAudioLevel] = useState(0);
-    const [showStats, setShowStats] = useState(false);
+    const [remoteAudioLevels, setRemoteAudioLevels] = useState<Record<string, number>>({});
+    const [openPanel, setOpenPanel] = useState<SidePanel | null>(null);
+    const [showShortcuts, setShowShortcuts] = useState(false);
     
     const controls = useAnimation();
     const voipController = useRef<VoIPController | null>(null);
+    const recorder = useRef<CallRecorder | null>(null);
+    const audioLevelHandlers = useRef(new Map<string, (level: number) => void>());
+
+    // Stable per-peer callbacks, so each AudioVisualizer keeps its audio graph across renders
+    const getAudioLevelHandler = useCallback((peerId: string) => {
+        let handler = audioLevelHandlers.current.get(peerId);
+        if (!handler) {
+            handler = (level: number) => setRemoteAudioLevels(levels => (
+                levels[peerId] === level ? levels : { ...levels, [peerId]: level }
+            ));
+            audioLevelHandlers.current.set(peerId, handler);
+        }
+        return handler;
+    }, []);
 
     // Show/hide floating controls on mouse move
     const handleMouseMove = () => {
@@ -42,6 +132,14 @@ const App = () => {
         setTimeout(() => controls.start({ opacity: 0, y: 20 }), 3000);
     };
 
+    // Keep the active room in sync with /r/:roomId, including back/forward navigation
+    useEffect(() => {
+        const syncRoomFromPath = () => setRoomId(getRoomIdFromPath());
+        syncRoomFromPath();
+        window.addEventListener('popstate', syncRoomFromPath);
+        return () => window.removeEventListener('popstate', syncRoomFromPath);
+    }, [setRoomId]);
+
     useEffect(() => {
         const initialize = async () => {
             try {
@@ -55,10 +153,51 @@ const App = () => {
                     },
                     onLocalStream: setLocalStream,
                     onRemoteStream: setRemoteStream,
+                    onRemoteStreamRemoved: (peerId) => {
+                        setRemoteStream(peerId, null);
+                        setRemoteScreenStream(peerId, null);
+                        setRemoteMedia(peerId, null);
+                        setPeerQuality(peerId, null);
+                        setRemoteRecording(peerId, false);
+                        audioLevelHandlers.current.delete(peerId);
+                        setRemoteAudioLevels(({ [peerId]: _removed, ...levels }) => levels);
+                    },
+                    onRemoteScreenStream: setRemoteScreenStream,
+                    onRemoteMediaChange: setRemoteMedia,
+                    onScreenShareChange: setScreenSharing,
+                    onRemoteRecordingChange: setRemoteRecording,
+                    onDevicesChange: setDevices,
+                    onDeviceFallback: (kind) => {
+                        toast(`${DEVICE_LABELS[kind]} disconnected, switched to the default one`);
+                    },
+                    onRoomCreated: (createdRoomId) => {
+                        setRoomId(createdRoomId);
+                        navigateToRoom(createdRoomId);
+                    },
                     onCallQualityChange: setCallQuality,
-                    onError: (error) => toast.error(error.message || 'An unknown error occurred.'),
+                    onPeerQualityChange: (peerId, score) => {
+                        const previous = useStore.getState().peerQuality.get(peerId);
+                        setPeerQuality(peerId, score);
+                        if (isPartnerBottleneck(score) && !(previous && isPartnerBottleneck(previous))) {
+                            toast(`${getParticipantName(peerId, [...useStore.getState().remoteStreams.keys()])}'s connection is unstable`, { id: `partner-connection-${peerId}` });
+                        }
+                    },
+                    onStats: updateCallStats,
+                    onChatMessage: addMessage,
+                    onChatMessageStatus: setMessageStatus,
+                    onFileTransferChange: (transfer) => {
+                        upsertTransfer(transfer);
+                        if (transfer.status === 'offered') {
+                            toast(`Incoming file: ${transfer.name}. Open the chat to accept it.`);
+                        }
+                    },
+                    onError: (error) => {
+                        setIsConnecting(false);
+                        toast.error(error.message || 'An unknown error occurred.');
+                    },
                 });
-                await voipController.current.initialize();
+                const { selectedDevices, settings } = useStore.getState();
+                await voipController.current.initialize(selectedDevices, settings);
                 setConnectionState('ready');
             } catch (error) {
                 toast.error("Failed to initialize. Please check camera/mic permissions.");
@@ -67,63 +206,322 @@ const App = () => {
         };
         initialize();
         return () => voipController.current?.destroy();
-    }, [setConnectionState, setCallQuality, setLocalStream, setRemoteStream]);
+    }, [setConnectionState, setCallQuality, setPeerQuality, updateCallStats, setLocalStream, setRemoteStream, setRoomId, addMessage, setMessageStatus, upsertTransfer, setRemoteScreenStream, setRemoteMedia, setScreenSharing, setRemoteRecording, setDevices]);
 
     const handleConnect = useCallback(() => {
         if (!voipController.current) return;
         setIsConnecting(true);
-        voipController.current.connect();
-    }, []);
+        clearMessages();
+        clearTransfers();
+        clearStatsHistory();
+        if (roomId) {
+            voipController.current.joinRoom(roomId);
+        } else {
+            voipController.current.connect(matchPreferences);
+        }
+    }, [roomId, matchPreferences, clearMessages, clearTransfers, clearStatsHistory]);
+
+    const handleCreateRoom = useCallback(() => {
+        if (!voipController.current) return;
+        setIsConnecting(true);
+        clearMessages();
+        clearTransfers();
+        clearStatsHistory();
+        voipController.current.createRoom();
+    }, [clearMessages, clearTransfers, clearStatsHistory]);
+
+    const handleLeaveRoom = useCallback(() => {
+        voipController.current?.disconnect();
+        setIsConnecting(false);
+        setRoomId(null);
+        navigateToRoom(null);
+    }, [setRoomId]);
 
     const handleDisconnect = useCallback(() => {
         if (!voipController.current) return;
         voipController.current.disconnect();
-        setShowStats(false);
+        setOpenPanel(null);
     }, []);
 
+    // The controller owns the tracks; the store mirrors what it reports back
+    const handleToggleAudio = useCallback(() => {
+        const enabled = voipController.current?.toggleAudio();
+        if (enabled !== undefined) setAudioEnabled(enabled);
+    }, [setAudioEnabled]);
+
+    const handleToggleVideo = useCallback(() => {
+        const enabled = voipController.current?.toggleVideo();
+        if (enabled !== undefined) setVideoEnabled(enabled);
+    }, [setVideoEnabled]);
+
+    const setMicrophone = useCallback((enabled: boolean) => {
+        const controller = voipController.current;
+        if (controller) setAudioEnabled(controller.setAudioEnabled(enabled));
+    }, [setAudioEnabled]);
+
+    const handleSelectDevice = useCallback((kind: MediaDeviceKind, deviceId: string | null) => {
+        setSelectedDevice(kind, deviceId);
+        voipController.current?.setDevice(kind, deviceId).catch((error) => {
+            console.error('Device switch failed:', error);
+            toast.error(`Could not switch ${DEVICE_LABELS[kind].toLowerCase()}`);
+        });
+    }, [setSelectedDevice]);
+
+    useEffect(() => {
+        voipController.current?.updateSettings(settings).catch((error) => {
+            console.error('Applying settings failed:', error);
+            toast.error('Could not apply audio settings');
+        });
+    }, [settings]);
+
+    const handleToggleScreenShare = useCallback(() => {
+        const controller = voipController.current;
+        if (!controller) return;
+
+        if (controller.isScreenSharing()) {
+            controller.stopScreenShare();
+        } else {
+            // Rejecting the browser's picker is not worth an error toast
+            controller.startScreenShare(screenShareOptions).catch((error: Error) => {
+                if (error.name !== 'NotAllowedError') toast.error('Could not start screen sharing');
+            });
+        }
+    }, [screenShareOptions]);
+
+    const stopRecording = useCallback(() => {
+        const active = recorder.current;
+        if (!active) return;
+
+        recorder.current = null;
+        setRecording(false);
+        voipController.current?.setRecording(false);
+        active.stop()
+            .then(blob => downloadBlob(blob, recordingFileName()))
+            .catch((error) => {
+                console.error('Recording failed:', error);
+                toast.error('Could not save the recording');
+            });
+    }, [setRecording]);
+
+    const handleToggleRecording = useCallback(() => {
+        if (recorder.current) {
+            stopRecording();
+            return;
+        }
+
+        try {
+            const callRecorder = new CallRecorder();
+            callRecorder.start(getRecordingLayout());
+            recorder.current = callRecorder;
+            setRecording(true);
+            voipController.current?.setRecording(true);
+        } catch (error) {
+            console.error('Recording failed to start:', error);
+            toast.error((error as Error).message || 'Could not start recording');
+        }
+    }, [stopRecording, setRecording]);
+
+    const handleSendMessage = useCallback((text: string) => {
+        voipController.current?.sendChatMessage(text);
+    }, []);
+
+    const handleSendFile = useCallback((file: File) => {
+        voipController.current?.sendFile(file).catch((error: Error) => toast.error(error.message));
+    }, []);
+
+    const togglePanel = (panel: SidePanel) => {
+        setOpenPanel(openPanel === panel ? null : panel);
+    };
+
+    const audioOutputId = getAudioOutputId(devices, selectedDevices);
+
     const isSpeaker = (level: number, otherLevel: number) => level > 0.05 && level > otherLevel;
-    const isLocalSpeaker = isSpeaker(localAudioLevel, remoteAudioLevel);
-    const isRemoteSpeaker = isSpeaker(remoteAudioLevel, localAudioLevel);
+    const remotePeers = [...remoteStreams.entries()];
+    const remotePeerIds = [...remoteStreams.keys()];
+    const loudestRemoteLevel = Math.max(0, ...remotePeers.map(([peerId]) => remoteAudioLevels[peerId] ?? 0));
+    const isLocalSpeaker = isSpeaker(localAudioLevel, loudestRemoteLevel);
+    const isRemoteSpeaker = (peerId: string) => {
+        const level = remoteAudioLevels[peerId] ?? 0;
+        return isSpeaker(level, localAudioLevel) && level >= loudestRemoteLevel;
+    };
+    const remoteScreens = [...remoteScreenStreams.entries()];
+    const tileCount = remotePeers.length + remoteScreens.length;
+    const gridColumns = tileCount <= 1
+        ? 'grid-cols-1'
+        : tileCount <= 4
+            ? 'grid-cols-1 sm:grid-cols-2'
+            : 'grid-cols-2 lg:grid-cols-3';
+
+    // Stay on the call view while signaling reconnects underneath it
+    const isReconnecting = connectionState === 'reconnecting' && remotePeers.length > 0;
+    const isInCall = connectionState === 'connected' || isReconnecting;
 
-    const isInCall = connectionState === 'connected';
+    // The recording follows the call view as people join, leave and share
+    useEffect(() => {
+        recorder.current?.update(getRecordingLayout());
+    }, [localStream, remoteStreams, remoteScreenStreams, remoteMedia]);
+
+    // Leaving the call finishes the recording and saves what we have
+    useEffect(() => {
+        if (!isInCall) stopRecording();
+    }, [isInCall, stopRecording]);
+
+    // Push-to-talk starts every call muted
+    useEffect(() => {
+        if (isInCall && settings.pushToTalk) setMicrophone(false);
+    }, [isInCall, settings.pushToTalk, setMicrophone]);
+
+    useEffect(() => {
+        if (!isInCall) return;
+
+        const { pushToTalk, pushToTalkKey, spaceToUnmute } = settings;
+        // The key currently holding the microphone open, if any
+        let heldKey: string | null = null;
+
+        const actions: Record<ShortcutAction, () => void> = {
+            toggleAudio: handleToggleAudio,
+            toggleVideo: handleToggleVideo,
+            toggleScreenShare: handleToggleScreenShare,
+            toggleStats: () => setOpenPanel(panel => panel === 'stats' ? null : 'stats'),
+            hangUp: handleDisconnect,
+            showShortcuts: () => setShowShortcuts(shown => !shown),
+        };
+
+        const release = () => {
+            if (heldKey === null) return;
+            heldKey = null;
+            setMicrophone(false);
+        };
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (isTypingTarget(event.target)) return;
+
+            const holdKey = pushToTalk
+                ? pushToTalkKey
+                : spaceToUnmute && !useStore.getState().mediaState.isAudioEnabled ? 'Space' : null;
+            if (event.code === holdKey || event.code === heldKey) {
+                // Otherwise Space would also press whichever button has focus
+                event.preventDefault();
+                if (heldKey === null) {
+                    heldKey = event.code;
+                    setMicrophone(true);
+                }
+                return;
+            }
+
+            const action = event.repeat ? null : findShortcut(event);
+            if (action) {
+                event.preventDefault();
+                actions[action]();
+            }
+        };
+
+        const handleKeyUp = (event: KeyboardEvent) => {
+            if (event.code !== heldKey) return;
+            event.preventDefault();
+            release();
+        };
+
+        // Switching windows mid-press never delivers the keyup
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        window.addEventListener('blur', release);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', release);
+            release();
+        };
+    }, [isInCall, settings, handleToggleAudio, handleToggleVideo, handleToggleScreenShare, handleDisconnect, setMicrophone]);
+
+    const toaster = (
+        <Toaster position="top-center" toastOptions={{
+            style: { background: '#222', color: '#fff' }
+        }}/>
+    );
 
     if (!isInCall) {
         return (
-            <AnimatePresence mode="wait">
-                <ConnectionScreen
-                    key="connection-screen"
-                    onConnect={handleConnect}
-                    isConnecting={isConnecting}
-                    status={connectionState}
-                />
-            </AnimatePresence>
+            <>
+                {toaster}
+                <AnimatePresence mode="wait">
+                    <ConnectionScreen
+                        key="connection-screen"
+                        onConnect={handleConnect}
+                        onCreateRoom={handleCreateRoom}
+                        onLeaveRoom={handleLeaveRoom}
+                        onSelectDevice={handleSelectDevice}
+                        getIceServers={() => voipController.current?.getIceServers() ?? []}
+                        isConnecting={isConnecting}
+                        status={connectionState}
+                        roomId={roomId}
+                    />
+                </AnimatePresence>
+            </>
         );
     }
     
     return (
         <div className="w-full h-screen overflow-hidden bg-black" onMouseMove={handleMouseMove}>
-            <Toaster position="top-center" toastOptions={{
-                style: { background: '#222', color: '#fff' }
-            }}/>
+            {toaster}
 
-            {/* Remote Participant (Main View) */}
-            <AnimatePresence>
-                {remoteStream && (
-                     <Participant
-                        key="remote"
-                        stream={remoteStream}
-                        onAudioLevelChange={setRemoteAudioLevel}
-                        isSpeaking={isRemoteSpeaker}
-                    />
-                )}
-            </AnimatePresence>
-             {!remoteStream && (
+            {/* Remote Participants (Main View) */}
+            {remotePeers.length > 0 && (
+                <div className={`w-full h-full grid auto-rows-fr gap-1 ${gridColumns}`}>
+                    <AnimatePresence>
+                        {remotePeers.map(([peerId, stream]) => {
+                            const media = remoteMedia.get(peerId) ?? initialRemoteMedia;
+                            // A screen shown in the camera's place is on even with the camera off
+                            const isInPlaceScreen = media.screenSharing && !remoteScreenStreams.has(peerId);
+                            return (
+                                <Participant
+                                    key={peerId}
+                                    stream={stream}
+                                    name={getParticipantName(peerId, remotePeerIds)}
+                                    isMuted={!media.audioEnabled}
+                                    isVideoOff={!media.videoEnabled && !isInPlaceScreen}
+                                    onAudioLevelChange={getAudioLevelHandler(peerId)}
+                                    isSpeaking={isRemoteSpeaker(peerId)}
+                                    isScreenShare={isInPlaceScreen}
+                                    connectionQuality={peerQuality.get(peerId)?.link.remote}
+                                    audioOutputId={audioOutputId}
+                                />
+                            );
+                        })}
+                        {remoteScreens.map(([peerId, stream]) => (
+                            <Participant
+                                key={`${peerId}-screen`}
+                                stream={stream}
+                                onAudioLevelChange={ignoreAudioLevel}
+                                isSpeaking={false}
+                                isScreenShare
+                                audioOutputId={audioOutputId}
+                            />
+                        ))}
+                    </AnimatePresence>
+                </div>
+            )}
+             {remotePeers.length === 0 && (
                 <div className="w-full h-full flex flex-col items-center justify-center text-text-secondary">
                    <div className="spinner w-8 h-8 mb-4"></div>
                    <p>Connecting to partner...</p>
                 </div>
             )}
             
+            {isReconnecting && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 px-4 py-2 rounded-full bg-surface-2/80 backdrop-blur-sm text-sm text-text-primary">
+                    <div className="spinner w-4 h-4"></div>
+                    Reconnecting...
+                </div>
+            )}
+
+            {(mediaState.isRecording || recordingPeers.length > 0) && (
+                <div className="absolute top-4 left-4 z-50 flex items-center gap-2 px-3 py-1.5 rounded-full bg-danger/80 backdrop-blur-sm text-sm font-medium text-white">
+                    <span className="w-2 h-2 rounded-full bg-white animate-pulse"></span>
+                    {recordingPeers.length > 0 ? `${getParticipantName(recordingPeers[0], remotePeerIds)} is recording this call` : 'Recording'}
+                </div>
+            )}
+
             {/* Local Participant (Draggable PiP) */}
             <motion.div
                 drag
@@ -136,6 +534,7 @@ const App = () => {
                 {localStream && (
                     <Participant
                         stream={localStream}
+                        name="You"
                         isLocal
                         isMuted={!mediaState.isAudioEnabled}
                         onAudioLevelChange={setLocalAudioLevel}
@@ -146,27 +545,68 @@ const App = () => {
 
             {/* Stats Panel */}
             <AnimatePresence>
-                {showStats && <CallStats onClose={() => setShowStats(false)} />}
+                {openPanel === 'stats' && <CallStats onClose={() => setOpenPanel(null)} />}
+            </AnimatePresence>
+
+            {/* Chat Panel */}
+            <AnimatePresence>
+                {openPanel === 'chat' && (
+                    <ChatPanel
+                        onSend={handleSendMessage}
+                        onSendFile={handleSendFile}
+                        onAccept={(id) => voipController.current?.acceptFile(id)}
+                        onDecline={(id) => voipController.current?.declineFile(id)}
+                        onCancel={(id) => voipController.current?.cancelFile(id)}
+                        onClose={() => setOpenPanel(null)}
+                    />
+                )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+                {showShortcuts && <ShortcutsOverlay onClose={() => setShowShortcuts(false)} />}
+            </AnimatePresence>
+
+            {/* Device Panel */}
+            <AnimatePresence>
+                {openPanel === 'settings' && <SettingsPanel onSelectDevice={handleSelectDevice} onClose={() => setOpenPanel(null)} />}
             </AnimatePresence>
 
             {/* Floating Controls */}
             <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-50">
                 <motion.div animate={controls} initial={{ opacity: 0, y: 20 }}>
                     <CallControls
-                        onToggleAudio={voipController.current?.toggleAudio}
-                        onToggleVideo={voipController.current?.toggleVideo}
+                        onToggleAudio={handleToggleAudio}
+                        onToggleVideo={handleToggleVideo}
+                        onToggleScreenShare={handleToggleScreenShare}
                         onDisconnect={handleDisconnect}
                         isAudioEnabled={mediaState.isAudioEnabled}
                         isVideoEnabled={mediaState.isVideoEnabled}
+                        isScreenSharing={mediaState.isScreenSharing}
+                        onToggleRecording={handleToggleRecording}
+                        isRecording={mediaState.isRecording}
+                        screenShareOptions={screenShareOptions}
+                        onScreenShareOptionsChange={setScreenShareOptions}
                     />
                 </motion.div>
             </div>
 
             {/* Top right buttons */}
-            <div className="absolute top-4 right-[240px] z-50">
-                <button onClick={() => setShowStats(!showStats)} className="p-2 rounded-full bg-surface-2/50 backdrop-blur-sm hover:bg-surface-2">
+            <div className="absolute top-4 right-[240px] z-50 flex items-center gap-2">
+                <NetworkQuality label="You" quality={qualityScore?.link.local ?? 'unknown'} />
+                <button onClick={() => togglePanel('chat')} className="relative p-2 rounded-full bg-surface-2/50 backdrop-blur-sm hover:bg-surface-2">
+                    <MessageSquare size={20} />
+                    {unreadMessages > 0 && openPanel !== 'chat' && (
+                        <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 flex items-center justify-center rounded-full bg-danger text-[10px] font-bold text-white">
+                            {unreadMessages > 9 ? '9+' : unreadMessages}
+                        </span>
+                    )}
+                </button>
+                <button onClick={() => togglePanel('stats')} className="p-2 rounded-full bg-surface-2/50 backdrop-blur-sm hover:bg-surface-2">
                     <Activity size={20} />
                 </button>
+                <button onClick={() => togglePanel('settings')} className="p-2 rounded-full bg-surface-2/50 backdrop-blur-sm hover:bg-surface-2">
+                    <Settings2 size={20} />
+                </button>
             </div>
         </div>
     );
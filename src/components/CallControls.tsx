@@ -1,16 +1,37 @@
-import { motion } from 'framer-motion';
-import { Mic, MicOff, Video, VideoOff, PhoneOff } from 'lucide-react';
+import { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Mic, MicOff, Video, VideoOff, PhoneOff, ScreenShare, ScreenShareOff, ChevronUp, Circle } from 'lucide-react';
+import { ScreenShareOptions } from '../types';
 
 interface CallControlsProps {
-    onToggleAudio: (() => boolean) | undefined;
-    onToggleVideo: (() => boolean) | undefined;
+    onToggleAudio: () => void;
+    onToggleVideo: () => void;
+    onToggleScreenShare: () => void;
+    onToggleRecording: () => void;
     onDisconnect: () => void;
     isAudioEnabled: boolean;
     isVideoEnabled: boolean;
+    isScreenSharing: boolean;
+    isRecording: boolean;
+    screenShareOptions: ScreenShareOptions;
+    onScreenShareOptionsChange: (options: Partial<ScreenShareOptions>) => void;
 }
 
-const CallControls = ({ onToggleAudio, onToggleVideo, onDisconnect, isAudioEnabled, isVideoEnabled }: CallControlsProps) => {
+const CallControls = ({
+    onToggleAudio,
+    onToggleVideo,
+    onToggleScreenShare,
+    onToggleRecording,
+    onDisconnect,
+    isAudioEnabled,
+    isVideoEnabled,
+    isScreenSharing,
+    isRecording,
+    screenShareOptions,
+    onScreenShareOptionsChange,
+}: CallControlsProps) => {
     const iconSize = 24;
+    const [showShareOptions, setShowShareOptions] = useState(false);
 
     const controls = [
         {
@@ -29,6 +50,11 @@ const CallControls = ({ onToggleAudio, onToggleVideo, onDisconnect, isAudioEnabl
         },
     ];
 
+    const shareOptions: { key: keyof ScreenShareOptions; label: string }[] = [
+        { key: 'withAudio', label: 'Share system audio' },
+        { key: 'separateTracks', label: 'Keep camera on while sharing' },
+    ];
+
     return (
         <div className="flex items-center gap-4 p-3 bg-surface-2/70 backdrop-blur-md rounded-full border border-border-default shadow-lg">
             {controls.map(control => (
@@ -42,6 +68,56 @@ const CallControls = ({ onToggleAudio, onToggleVideo, onDisconnect, isAudioEnabl
                     {control.isEnabled ? control.enabledIcon : control.disabledIcon}
                 </button>
             ))}
+            <div className="relative flex items-center">
+                <button
+                    onClick={onToggleScreenShare}
+                    title={isScreenSharing ? 'Stop sharing' : 'Share screen'}
+                    className={`p-3 rounded-full transition-colors ${
+                        isScreenSharing ? 'bg-primary hover:bg-primary-hover' : 'bg-surface-1 hover:bg-primary-hover'
+                    }`}
+                >
+                    {isScreenSharing ? <ScreenShareOff size={iconSize} /> : <ScreenShare size={iconSize} />}
+                </button>
+                {/* Options apply to the next share, so they're locked while sharing */}
+                <button
+                    onClick={() => setShowShareOptions(!showShareOptions)}
+                    disabled={isScreenSharing}
+                    className="p-1 ml-1 rounded-full text-text-secondary hover:text-text-primary disabled:opacity-30"
+                >
+                    <ChevronUp size={16} />
+                </button>
+                <AnimatePresence>
+                    {showShareOptions && !isScreenSharing && (
+                        <motion.div
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: 10 }}
+                            className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 w-64 p-3 space-y-2 bg-surface-1 rounded-lg border border-border-default shadow-lg"
+                        >
+                            {shareOptions.map(option => (
+                                <label key={option.key} className="flex items-center gap-2 text-sm cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={screenShareOptions[option.key]}
+                                        onChange={(e) => onScreenShareOptionsChange({ [option.key]: e.target.checked })}
+                                        className="accent-primary"
+                                    />
+                                    {option.label}
+                                </label>
+                            ))}
+                        </motion.div>
+                    )}
+                </AnimatePresence>
+            </div>
+            <button
+                onClick={onToggleRecording}
+                title={isRecording ? 'Stop recording' : 'Record call'}
+                className={`p-3 rounded-full transition-colors ${
+                    isRecording ? 'bg-danger/80 hover:bg-danger' : 'bg-surface-1 hover:bg-primary-hover'
+                }`}
+            >
+                <Circle size={iconSize} className={isRecording ? 'fill-current animate-pulse' : ''} />
+            </button>
              <button
                 onClick={onDisconnect}
                 className="p-3 rounded-full bg-danger hover:bg-red-500 transition-colors"
@@ -1,15 +1,73 @@
 import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Wifi, Clock, BarChart2, AlertCircle, X } from 'lucide-react';
+import { Wifi, Clock, BarChart2, AlertCircle, Cpu, Activity, Film, Maximize, Upload, Download, Gauge, Layers, X } from 'lucide-react';
 import { useStore } from '../store';
+import { CallStats as CallStatsData } from '../types';
+import { downloadBlob } from '../lib/download';
+import { statsFileName, statsToCsv, statsToJson } from '../lib/statsExport';
+import { getParticipantName } from '../lib/participants';
+import Sparkline from './Sparkline';
 
 interface CallStatsProps {
     onClose: () => void;
 }
 
+// Two minutes at one sample every two seconds
+const CHART_WINDOW = 60;
+
+const formatBitrate = (b: number) => b >= 1000000
+    ? `${(b / 1000000).toFixed(1)} Mbps`
+    : b > 1000 ? `${(b / 1000).toFixed(1)} kbps` : `${b} bps`;
+
+const CHARTS: { icon: typeof Wifi; label: string; value: (s: CallStatsData) => number; format: (s: CallStatsData) => string }[] = [
+    {
+        icon: Wifi,
+        label: 'RTT',
+        value: s => s.connection.roundTripTime,
+        format: s => `${s.connection.roundTripTime.toFixed(0)} ms`,
+    },
+    {
+        icon: AlertCircle,
+        label: 'Packet Loss',
+        value: s => Math.max(s.audio.packetLoss, s.video.packetLoss),
+        format: s => `${Math.max(s.audio.packetLoss, s.video.packetLoss).toFixed(1)}%`,
+    },
+    {
+        icon: Activity,
+        label: 'Jitter',
+        value: s => s.audio.jitter,
+        format: s => `${s.audio.jitter.toFixed(0)} ms`,
+    },
+    {
+        icon: BarChart2,
+        label: 'Bitrate In',
+        value: s => s.audio.bitrate + s.video.bitrate,
+        format: s => formatBitrate(s.audio.bitrate + s.video.bitrate),
+    },
+    {
+        icon: Upload,
+        label: 'Bitrate Out',
+        value: s => s.audio.outbound.bitrate + s.video.outbound.bitrate,
+        format: s => formatBitrate(s.audio.outbound.bitrate + s.video.outbound.bitrate),
+    },
+    {
+        icon: Film,
+        label: 'Frame Rate',
+        value: s => s.video.frameRate,
+        format: s => `${s.video.frameRate.toFixed(0)} fps`,
+    },
+    {
+        icon: Maximize,
+        label: 'Resolution',
+        value: s => s.video.resolution.height,
+        format: s => `${s.video.resolution.width}×${s.video.resolution.height}`,
+    },
+];
+
 const CallStats = ({ onClose }: CallStatsProps) => {
-    const { callStats } = useStore();
+    const { statsHistory, qualityScore, remoteStreams } = useStore();
     const [duration, setDuration] = useState(0);
+    const [selectedPeer, setSelectedPeer] = useState<string | null>(null);
 
     useEffect(() => {
         const timer = setInterval(() => setDuration(d => d + 1), 1000);
@@ -17,36 +75,126 @@ const CallStats = ({ onClose }: CallStatsProps) => {
     }, []);
     
     const formatDuration = (s: number) => `${Math.floor(s / 60).toString().padStart(2, '0')}:${(s % 60).toString().padStart(2, '0')}`;
-    const formatBitrate = (b: number) => b > 1000 ? `${(b/1000).toFixed(1)} kbps` : `${b} bps`;
 
-    const stats = [
-        { icon: Clock, label: "Duration", value: formatDuration(duration) },
-        { icon: Wifi, label: "RTT", value: `${callStats?.connection.roundTripTime.toFixed(0) ?? 0} ms` },
-        { icon: BarChart2, label: "Bitrate", value: formatBitrate((callStats?.audio.bitrate ?? 0) + (callStats?.video.bitrate ?? 0)) },
-        { icon: AlertCircle, label: "Packet Loss", value: `${callStats?.audio.packetLoss ?? 0}%` },
-    ];
+    // Charts follow one link at a time; the newest one unless another is picked
+    const peerIds = [...new Set(statsHistory.map(sample => sample.peerId))];
+    const remotePeerIds = [...remoteStreams.keys()];
+    const peerId = selectedPeer && peerIds.includes(selectedPeer) ? selectedPeer : peerIds[peerIds.length - 1];
+    const recent = statsHistory.filter(sample => sample.peerId === peerId).slice(-CHART_WINDOW).map(sample => sample.stats);
+    const latest = recent[recent.length - 1];
+
+    const exportHistory = (format: 'json' | 'csv') => {
+        const content = format === 'json' ? statsToJson(statsHistory) : statsToCsv(statsHistory);
+        const type = format === 'json' ? 'application/json' : 'text/csv';
+        downloadBlob(new Blob([content], { type }), statsFileName(format));
+    };
 
     return (
         <motion.div
             initial={{ opacity: 0, x: 100 }}
             animate={{ opacity: 1, x: 0 }}
             exit={{ opacity: 0, x: 100 }}
-            className="absolute top-0 right-0 h-full w-80 bg-surface-1/80 backdrop-blur-xl border-l border-border-default p-6 z-50"
+            className="absolute top-0 right-0 h-full w-80 bg-surface-1/80 backdrop-blur-xl border-l border-border-default p-6 z-50 flex flex-col"
         >
             <div className="flex justify-between items-center mb-6">
                 <h2 className="text-xl font-bold">Call Statistics</h2>
                 <button onClick={onClose} className="p-1 text-text-secondary hover:text-text-primary"><X size={20}/></button>
             </div>
-            <div className="space-y-4">
-                {stats.map(s => (
-                    <div key={s.label} className="flex items-center justify-between p-3 bg-surface-2 rounded-lg">
-                        <div className="flex items-center gap-3">
-                            <s.icon size={16} className="text-accent" />
-                            <span className="text-sm text-text-secondary">{s.label}</span>
+
+            {peerIds.length > 1 && (
+                <select
+                    value={peerId}
+                    onChange={(e) => setSelectedPeer(e.target.value)}
+                    className="mb-4 p-2 bg-surface-2 border border-border-default rounded-lg text-sm text-text-primary focus:outline-none"
+                >
+                    {peerIds.map(id => (
+                        <option key={id} value={id} className="bg-surface-1">{getParticipantName(id, remotePeerIds)}</option>
+                    ))}
+                </select>
+            )}
+
+            <div className="flex-1 overflow-y-auto space-y-3">
+                <div className="flex items-center justify-between p-3 bg-surface-2 rounded-lg">
+                    <div className="flex items-center gap-3">
+                        <Clock size={16} className="text-accent" />
+                        <span className="text-sm text-text-secondary">Duration</span>
+                    </div>
+                    <span className="font-semibold text-sm">{formatDuration(duration)}</span>
+                </div>
+
+                <div className="flex items-center justify-between p-3 bg-surface-2 rounded-lg">
+                    <div className="flex items-center gap-3">
+                        <Gauge size={16} className="text-accent" />
+                        <span className="text-sm text-text-secondary">MOS</span>
+                    </div>
+                    <span className="font-semibold text-sm" title="Audio MOS / video score, worst direction">
+                        {qualityScore
+                            ? `${qualityScore.mos.toFixed(1)}${qualityScore.videoScore !== null ? ` / ${qualityScore.videoScore.toFixed(1)}` : ''}`
+                            : '–'}
+                    </span>
+                </div>
+
+                {CHARTS.map(chart => (
+                    <div key={chart.label} className="p-3 bg-surface-2 rounded-lg">
+                        <div className="flex items-center justify-between mb-2">
+                            <div className="flex items-center gap-3">
+                                <chart.icon size={16} className="text-accent" />
+                                <span className="text-sm text-text-secondary">{chart.label}</span>
+                            </div>
+                            <span className="font-semibold text-sm">{latest ? chart.format(latest) : '–'}</span>
                         </div>
-                        <span className="font-semibold text-sm">{s.value}</span>
+                        <Sparkline values={recent.map(chart.value)} />
                     </div>
                 ))}
+
+                <div className="flex items-center justify-between p-3 bg-surface-2 rounded-lg">
+                    <div className="flex items-center gap-3">
+                        <Cpu size={16} className="text-accent" />
+                        <span className="text-sm text-text-secondary">Codecs</span>
+                    </div>
+                    <span className="font-semibold text-xs text-right">
+                        {latest?.audio.codec ?? 'unknown'}<br />{latest?.video.codec ?? 'unknown'}
+                    </span>
+                </div>
+
+                {latest && latest.video.outbound.encodings.length > 0 && (
+                    <div className="p-3 bg-surface-2 rounded-lg">
+                        <div className="flex items-center gap-3 mb-2">
+                            <Layers size={16} className="text-accent" />
+                            <span className="text-sm text-text-secondary">Video encodings sent</span>
+                        </div>
+                        <div className="space-y-1">
+                            {latest.video.outbound.encodings.map(encoding => (
+                                <div key={encoding.id} className="flex items-center justify-between text-xs">
+                                    <span className="text-text-secondary">
+                                        {encoding.id}{encoding.scalabilityMode ? ` · ${encoding.scalabilityMode}` : ''}
+                                    </span>
+                                    <span
+                                        className="font-semibold"
+                                        title={encoding.qualityLimitation !== 'none' ? `Limited by ${encoding.qualityLimitation}` : undefined}
+                                    >
+                                        {encoding.bitrate > 0
+                                            ? `${encoding.resolution.width}×${encoding.resolution.height} ${encoding.frameRate.toFixed(0)} fps · ${formatBitrate(encoding.bitrate)}`
+                                            : 'inactive'}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <div className="flex gap-2 pt-4">
+                {(['json', 'csv'] as const).map(format => (
+                    <button
+                        key={format}
+                        onClick={() => exportHistory(format)}
+                        disabled={statsHistory.length === 0}
+                        className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-surface-2 hover:bg-primary-hover text-sm disabled:opacity-50"
+                    >
+                        <Download size={14} /> {format.toUpperCase()}
+                    </button>
+                ))}
             </div>
         </motion.div>
     );
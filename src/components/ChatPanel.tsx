@@ -0,0 +1,110 @@
+import { ChangeEvent, FormEvent, useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, CheckCheck, Clock, Paperclip, Send, X } from 'lucide-react';
+import { useStore } from '../store';
+import { ChatMessageStatus } from '../types';
+import FileTransferList, { FileTransferActions } from './FileTransferList';
+
+interface ChatPanelProps extends FileTransferActions {
+    onSend: (text: string) => void;
+    onSendFile: (file: File) => void;
+    onClose: () => void;
+}
+
+const statusIcons: Record<ChatMessageStatus, JSX.Element> = {
+    queued: <Clock size={12} />,
+    sent: <Check size={12} />,
+    delivered: <CheckCheck size={12} />,
+};
+
+const ChatPanel = ({ onSend, onSendFile, onClose, ...fileActions }: ChatPanelProps) => {
+    const { messages, markMessagesRead, transfers } = useStore();
+    const [draft, setDraft] = useState('');
+    const listRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Everything is read while the panel is open
+    useEffect(() => {
+        markMessagesRead();
+        listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+    }, [messages, markMessagesRead]);
+
+    const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+    const handleSubmit = (event: FormEvent) => {
+        event.preventDefault();
+        if (!draft.trim()) return;
+        onSend(draft);
+        setDraft('');
+    };
+
+    const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) onSendFile(file);
+        event.target.value = '';
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, x: 100 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 100 }}
+            className="absolute top-0 right-0 h-full w-80 flex flex-col bg-surface-1/80 backdrop-blur-xl border-l border-border-default p-6 z-50"
+        >
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-xl font-bold">Chat</h2>
+                <button onClick={onClose} className="p-1 text-text-secondary hover:text-text-primary"><X size={20}/></button>
+            </div>
+
+            <div ref={listRef} className="flex-1 overflow-y-auto space-y-3 pr-1">
+                <FileTransferList transfers={transfers} {...fileActions} />
+                {messages.length === 0 && transfers.length === 0 && (
+                    <p className="text-sm text-text-secondary text-center mt-8">No messages yet</p>
+                )}
+                {messages.map(message => {
+                    const isOwn = message.from === null;
+                    return (
+                        <div key={message.id} className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+                            <div className={`max-w-[85%] px-3 py-2 rounded-lg text-sm break-words ${
+                                isOwn ? 'bg-primary text-white' : 'bg-surface-2'
+                            }`}>
+                                {message.text}
+                            </div>
+                            <div className="flex items-center gap-1 mt-1 text-xs text-text-secondary">
+                                <span>{formatTime(message.timestamp)}</span>
+                                {isOwn && statusIcons[message.status]}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <form onSubmit={handleSubmit} className="flex items-center gap-2 mt-4">
+                <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileChange} />
+                <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="p-2 rounded-lg text-text-secondary hover:text-text-primary hover:bg-surface-2 transition-colors"
+                >
+                    <Paperclip size={16} />
+                </button>
+                <input
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder="Type a message..."
+                    maxLength={2000}
+                    className="flex-1 bg-surface-2 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-primary"
+                />
+                <button
+                    type="submit"
+                    disabled={!draft.trim()}
+                    className="p-2 rounded-lg bg-primary hover:bg-primary-hover disabled:opacity-50 transition-colors"
+                >
+                    <Send size={16} />
+                </button>
+            </form>
+        </motion.div>
+    );
+};
+
+export default ChatPanel;
@@ -1,21 +1,45 @@
+import { useState } from 'react';
 import { useStore } from '../store';
-import { motion } from 'framer-motion';
-import { Phone, Video, Mic, MicOff, VideoOff } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { toast } from 'react-hot-toast';
+import { Phone, Video, Mic, MicOff, VideoOff, Link, Copy, LogOut, Stethoscope } from 'lucide-react';
+import { buildRoomLink } from '../lib/roomLink';
+import MatchPreferences from './MatchPreferences';
+import DeviceSelector from './DeviceSelector';
+import PreCallCheck from './PreCallCheck';
 
 interface ConnectionScreenProps {
     onConnect: () => void;
+    onCreateRoom: () => void;
+    onLeaveRoom: () => void;
+    onSelectDevice: (kind: MediaDeviceKind, deviceId: string | null) => void;
+    getIceServers: () => RTCIceServer[];
     isConnecting: boolean;
     status: string;
+    roomId: string | null;
 }
 
-const ConnectionScreen = ({ onConnect, isConnecting, status }: ConnectionScreenProps) => {
+const ConnectionScreen = ({ onConnect, onCreateRoom, onLeaveRoom, onSelectDevice, getIceServers, isConnecting, status, roomId }: ConnectionScreenProps) => {
     const { localStream, mediaState, toggleAudio, toggleVideo } = useStore();
+    const [isCheckOpen, setIsCheckOpen] = useState(false);
+
+    const copyInviteLink = async () => {
+        if (!roomId) return;
+        try {
+            await navigator.clipboard.writeText(buildRoomLink(roomId));
+            toast.success('Invite link copied');
+        } catch (error) {
+            toast.error('Could not copy the invite link');
+        }
+    };
 
     const getStatusText = () => {
+        if (roomId && status === 'searching') return "Waiting for someone to join...";
         if (isConnecting) return "Connecting...";
         switch (status) {
             case 'initializing': return "Initializing...";
-            case 'ready': return "Ready to connect";
+            case 'reconnecting': return "Reconnecting...";
+            case 'ready': return roomId ? "Join room" : "Ready to connect";
             case 'error': return "Connection Error";
             default: return "Join a call";
         }
@@ -29,30 +53,57 @@ const ConnectionScreen = ({ onConnect, isConnecting, status }: ConnectionScreenP
             exit={{ opacity: 0 }}
         >
             <div className="w-full max-w-6xl grid grid-cols-1 md:grid-cols-2 gap-12 items-center">
-                {/* Left Column: Video Preview */}
-                <motion.div
-                    className="relative aspect-video bg-surface-1 rounded-2xl overflow-hidden shadow-lg"
-                    initial={{ opacity: 0, x: -50 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    transition={{ duration: 0.5, delay: 0.2 }}
-                >
-                    {localStream && mediaState.isVideoEnabled ? (
-                        <video srcObject={localStream} autoPlay muted playsInline className="w-full h-full object-cover" />
-                    ) : (
-                        <div className="w-full h-full flex items-center justify-center flex-col text-text-secondary">
-                            <VideoOff size={48} />
-                            <p className="mt-2">Camera is off</p>
+                {/* Left Column: Video Preview and Devices */}
+                <div className="space-y-4">
+                    <motion.div
+                        className="relative aspect-video bg-surface-1 rounded-2xl overflow-hidden shadow-lg"
+                        initial={{ opacity: 0, x: -50 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        transition={{ duration: 0.5, delay: 0.2 }}
+                    >
+                        {localStream && mediaState.isVideoEnabled ? (
+                            <video srcObject={localStream} autoPlay muted playsInline className="w-full h-full object-cover" />
+                        ) : (
+                            <div className="w-full h-full flex items-center justify-center flex-col text-text-secondary">
+                                <VideoOff size={48} />
+                                <p className="mt-2">Camera is off</p>
+                            </div>
+                        )}
+                        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-3">
+                            <button onClick={toggleAudio} className="p-3 rounded-full bg-black/40 backdrop-blur-sm hover:bg-black/60 transition-colors">
+                                {mediaState.isAudioEnabled ? <Mic size={20} /> : <MicOff size={20} className="text-danger"/>}
+                            </button>
+                            <button onClick={toggleVideo} className="p-3 rounded-full bg-black/40 backdrop-blur-sm hover:bg-black/60 transition-colors">
+                                {mediaState.isVideoEnabled ? <Video size={20} /> : <VideoOff size={20} className="text-danger"/>}
+                            </button>
                         </div>
-                    )}
-                    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-3">
-                        <button onClick={toggleAudio} className="p-3 rounded-full bg-black/40 backdrop-blur-sm hover:bg-black/60 transition-colors">
-                            {mediaState.isAudioEnabled ? <Mic size={20} /> : <MicOff size={20} className="text-danger"/>}
-                        </button>
-                        <button onClick={toggleVideo} className="p-3 rounded-full bg-black/40 backdrop-blur-sm hover:bg-black/60 transition-colors">
-                            {mediaState.isVideoEnabled ? <Video size={20} /> : <VideoOff size={20} className="text-danger"/>}
-                        </button>
-                    </div>
-                </motion.div>
+                    </motion.div>
+                    <motion.div
+                        initial={{ opacity: 0, x: -50 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        transition={{ duration: 0.5, delay: 0.3 }}
+                    >
+                        <DeviceSelector onSelect={onSelectDevice} disabled={status === 'initializing'} />
+                    </motion.div>
+                    <AnimatePresence mode="wait">
+                        {isCheckOpen ? (
+                            <PreCallCheck key="check" getIceServers={getIceServers} onClose={() => setIsCheckOpen(false)} />
+                        ) : (
+                            <motion.button
+                                key="open-check"
+                                onClick={() => setIsCheckOpen(true)}
+                                disabled={status === 'initializing'}
+                                className="w-full flex items-center justify-center gap-2 py-2 text-sm text-text-secondary hover:text-text-primary rounded-lg transition-colors disabled:opacity-50"
+                                initial={{ opacity: 0 }}
+                                animate={{ opacity: 1 }}
+                                exit={{ opacity: 0 }}
+                            >
+                                <Stethoscope size={16} />
+                                <span>Test your setup</span>
+                            </motion.button>
+                        )}
+                    </AnimatePresence>
+                </div>
 
                 {/* Right Column: Connection Actions */}
                 <motion.div
@@ -65,7 +116,25 @@ const ConnectionScreen = ({ onConnect, isConnecting, status }: ConnectionScreenP
                         <Phone size={24} />
                     </div>
                     <h1 className="text-4xl font-bold text-text-primary mb-2">Ready to join?</h1>
-                    <p className="text-text-secondary mb-8">Connect with peers in crystal-clear HD video.</p>
+                    {roomId ? (
+                        <div className="w-full mb-8">
+                            <p className="text-text-secondary mb-3">
+                                You're joining the private room <span className="font-semibold text-text-primary">{roomId}</span>.
+                            </p>
+                            <div className="flex items-center gap-2 p-2 pl-3 bg-surface-1 border border-border-default rounded-lg">
+                                <Link size={16} className="text-accent shrink-0" />
+                                <span className="flex-1 text-sm text-text-secondary truncate">{buildRoomLink(roomId)}</span>
+                                <button onClick={copyInviteLink} className="p-2 rounded-md hover:bg-surface-2 transition-colors" title="Copy invite link">
+                                    <Copy size={16} />
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <>
+                            <p className="text-text-secondary mb-6">Connect with peers in crystal-clear HD video.</p>
+                            <MatchPreferences disabled={isConnecting} />
+                        </>
+                    )}
                     
                     <button
                         onClick={onConnect}
@@ -79,6 +148,25 @@ const ConnectionScreen = ({ onConnect, isConnecting, status }: ConnectionScreenP
                         )}
                         <span>{getStatusText()}</span>
                     </button>
+
+                    {roomId ? (
+                        <button
+                            onClick={onLeaveRoom}
+                            className="w-full flex items-center justify-center gap-2 mt-3 py-3 px-6 text-text-secondary hover:text-text-primary font-medium rounded-lg transition-colors"
+                        >
+                            <LogOut size={18} />
+                            <span>Leave room</span>
+                        </button>
+                    ) : (
+                        <button
+                            onClick={onCreateRoom}
+                            disabled={isConnecting || status === 'initializing'}
+                            className="w-full flex items-center justify-center gap-2 mt-3 py-3 px-6 bg-surface-2 hover:bg-surface-1 border border-border-default text-text-primary font-semibold rounded-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <Link size={18} />
+                            <span>Create private room</span>
+                        </button>
+                    )}
                 </motion.div>
             </div>
         </motion.div>
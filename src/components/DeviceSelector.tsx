@@ -0,0 +1,50 @@
+import { Mic, Camera, Volume2 } from 'lucide-react';
+import { useStore } from '../store';
+
+interface DeviceSelectorProps {
+    onSelect: (kind: MediaDeviceKind, deviceId: string | null) => void;
+    disabled?: boolean;
+}
+
+// Not every browser can route audio to a chosen output
+const canSelectOutput = typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+const DEVICE_KINDS: { kind: MediaDeviceKind; label: string; icon: typeof Mic }[] = [
+    { kind: 'audioinput', label: 'Microphone', icon: Mic },
+    { kind: 'videoinput', label: 'Camera', icon: Camera },
+    { kind: 'audiooutput', label: 'Speaker', icon: Volume2 },
+];
+
+const DeviceSelector = ({ onSelect, disabled = false }: DeviceSelectorProps) => {
+    const { devices, selectedDevices } = useStore();
+
+    return (
+        <fieldset disabled={disabled} className="w-full space-y-2 disabled:opacity-50">
+            {DEVICE_KINDS.filter(({ kind }) => kind !== 'audiooutput' || canSelectOutput).map(({ kind, label, icon: Icon }) => {
+                const options = devices.filter(device => device.kind === kind && device.deviceId !== 'default');
+                const selected = selectedDevices[kind];
+                const value = options.some(device => device.deviceId === selected) ? selected! : '';
+
+                return (
+                    <label key={kind} className="flex items-center gap-2 p-2 pl-3 bg-surface-1 border border-border-default rounded-lg" title={label}>
+                        <Icon size={16} className="text-accent shrink-0" />
+                        <select
+                            value={value}
+                            onChange={(e) => onSelect(kind, e.target.value || null)}
+                            className="flex-1 min-w-0 bg-transparent text-sm text-text-primary focus:outline-none"
+                        >
+                            <option value="" className="bg-surface-1">Default {label.toLowerCase()}</option>
+                            {options.map((device, index) => (
+                                <option key={device.deviceId} value={device.deviceId} className="bg-surface-1">
+                                    {device.label || `${label} ${index + 1}`}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                );
+            })}
+        </fieldset>
+    );
+};
+
+export default DeviceSelector;
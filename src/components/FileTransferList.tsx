@@ -0,0 +1,90 @@
+import { Download, FileText, X } from 'lucide-react';
+import { FileTransfer } from '../types';
+
+export interface FileTransferActions {
+    onAccept: (id: string) => void;
+    onDecline: (id: string) => void;
+    onCancel: (id: string) => void;
+}
+
+interface FileTransferListProps extends FileTransferActions {
+    transfers: FileTransfer[];
+}
+
+const statusLabels: Record<FileTransfer['status'], string> = {
+    offered: 'Wants to send you a file',
+    pending: 'Waiting for them to accept...',
+    transferring: '',
+    paused: 'Paused, waiting to reconnect...',
+    completed: 'Done',
+    declined: 'Declined',
+    cancelled: 'Cancelled',
+    failed: 'Failed integrity check',
+};
+
+const formatSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const FileTransferList = ({ transfers, onAccept, onDecline, onCancel }: FileTransferListProps) => {
+    if (transfers.length === 0) return null;
+
+    return (
+        <div className="space-y-2 mb-4">
+            {transfers.map(transfer => {
+                const progress = transfer.size > 0 ? (transfer.bytesTransferred / transfer.size) * 100 : 100;
+                const isActive = ['pending', 'transferring', 'paused'].includes(transfer.status);
+
+                return (
+                    <div key={transfer.id} className="p-3 bg-surface-2 rounded-lg text-sm">
+                        <div className="flex items-center gap-2">
+                            <FileText size={16} className="text-accent shrink-0" />
+                            <span className="flex-1 truncate" title={transfer.name}>{transfer.name}</span>
+                            <span className="text-xs text-text-secondary">{formatSize(transfer.size)}</span>
+                            {isActive && (
+                                <button onClick={() => onCancel(transfer.id)} className="p-1 text-text-secondary hover:text-text-primary">
+                                    <X size={14} />
+                                </button>
+                            )}
+                        </div>
+
+                        {(transfer.status === 'transferring' || transfer.status === 'paused') && (
+                            <div className="mt-2 h-1.5 w-full bg-surface-1 rounded-full overflow-hidden">
+                                <div className="h-full bg-primary transition-all" style={{ width: `${progress}%` }} />
+                            </div>
+                        )}
+
+                        <div className="flex items-center justify-between mt-2 text-xs text-text-secondary">
+                            <span>
+                                {transfer.status === 'transferring'
+                                    ? `${formatSize(transfer.bytesTransferred)} of ${formatSize(transfer.size)}`
+                                    : statusLabels[transfer.status]}
+                            </span>
+
+                            {transfer.status === 'offered' && (
+                                <div className="flex gap-2">
+                                    <button onClick={() => onDecline(transfer.id)} className="px-2 py-1 rounded bg-surface-1 hover:bg-danger/80">
+                                        Decline
+                                    </button>
+                                    <button onClick={() => onAccept(transfer.id)} className="px-2 py-1 rounded bg-primary hover:bg-primary-hover text-white">
+                                        Accept
+                                    </button>
+                                </div>
+                            )}
+
+                            {transfer.status === 'completed' && transfer.url && (
+                                <a href={transfer.url} download={transfer.name} className="flex items-center gap-1 text-accent hover:underline">
+                                    <Download size={12} /> Save
+                                </a>
+                            )}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default FileTransferList;
@@ -0,0 +1,103 @@
+import { Globe, Video, Mic, History } from 'lucide-react';
+import { useStore } from '../store';
+import { MatchMediaMode } from '../types';
+
+const LANGUAGES = [
+    { code: '', label: 'Any language' },
+    { code: 'en', label: 'English' },
+    { code: 'es', label: 'Español' },
+    { code: 'fr', label: 'Français' },
+    { code: 'de', label: 'Deutsch' },
+    { code: 'pt', label: 'Português' },
+    { code: 'ja', label: '日本語' },
+];
+
+const TOPICS = ['tech', 'music', 'gaming', 'sports', 'travel', 'books', 'movies', 'languages'];
+
+const MEDIA_MODES: { mode: MatchMediaMode; label: string; icon: typeof Video }[] = [
+    { mode: 'video', label: 'Video', icon: Video },
+    { mode: 'audio', label: 'Audio only', icon: Mic },
+];
+
+interface MatchPreferencesProps {
+    disabled?: boolean;
+}
+
+const MatchPreferences = ({ disabled = false }: MatchPreferencesProps) => {
+    const { matchPreferences, setMatchPreferences } = useStore();
+    const topics = matchPreferences.topics ?? [];
+
+    const toggleTopic = (topic: string) => {
+        setMatchPreferences({
+            topics: topics.includes(topic) ? topics.filter(t => t !== topic) : [...topics, topic]
+        });
+    };
+
+    return (
+        <fieldset disabled={disabled} className="w-full mb-6 space-y-4 disabled:opacity-50">
+            <div className="flex gap-3">
+                <label className="flex-1 flex items-center gap-2 p-2 pl-3 bg-surface-1 border border-border-default rounded-lg">
+                    <Globe size={16} className="text-accent shrink-0" />
+                    <select
+                        value={matchPreferences.language ?? ''}
+                        onChange={(e) => setMatchPreferences({ language: e.target.value || undefined })}
+                        className="flex-1 bg-transparent text-sm text-text-primary focus:outline-none"
+                    >
+                        {LANGUAGES.map(language => (
+                            <option key={language.code} value={language.code} className="bg-surface-1">{language.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <div className="flex p-1 bg-surface-1 border border-border-default rounded-lg">
+                    {MEDIA_MODES.map(({ mode, label, icon: Icon }) => (
+                        <button
+                            key={mode}
+                            type="button"
+                            onClick={() => setMatchPreferences({ mediaMode: mode })}
+                            className={`flex items-center gap-1.5 px-3 py-1 text-sm rounded-md transition-colors ${
+                                matchPreferences.mediaMode === mode ? 'bg-primary text-white' : 'text-text-secondary hover:text-text-primary'
+                            }`}
+                        >
+                            <Icon size={14} />
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                {TOPICS.map(topic => (
+                    <button
+                        key={topic}
+                        type="button"
+                        onClick={() => toggleTopic(topic)}
+                        className={`px-3 py-1 text-xs rounded-full border transition-colors ${
+                            topics.includes(topic)
+                                ? 'bg-primary/20 border-primary text-text-primary'
+                                : 'border-border-default text-text-secondary hover:text-text-primary'
+                        }`}
+                    >
+                        #{topic}
+                    </button>
+                ))}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-text-secondary">
+                <History size={16} className="text-accent" />
+                <span>Don't rematch me with my last</span>
+                <select
+                    value={matchPreferences.avoidRecentPartners ?? 0}
+                    onChange={(e) => setMatchPreferences({ avoidRecentPartners: Number(e.target.value) })}
+                    className="bg-surface-1 border border-border-default rounded-md px-2 py-1 text-text-primary focus:outline-none"
+                >
+                    {[0, 1, 3, 5, 10].map(count => (
+                        <option key={count} value={count}>{count}</option>
+                    ))}
+                </select>
+                <span>partners</span>
+            </label>
+        </fieldset>
+    );
+};
+
+export default MatchPreferences;
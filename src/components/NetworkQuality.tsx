@@ -5,9 +5,11 @@ import { CallQuality } from '../types';
 
 interface NetworkQualityProps {
     quality: CallQuality;
+    /** Whose connection this is, e.g. "You" */
+    label?: string;
 }
 
-const NetworkQuality = ({ quality }: NetworkQualityProps) => {
+const NetworkQuality = ({ quality, label }: NetworkQualityProps) => {
     const qualityConfig = {
         excellent: {
             bars: 4,
@@ -55,6 +57,7 @@ const NetworkQuality = ({ quality }: NetworkQualityProps) => {
             animate={{ opacity: 1, scale: 1 }}
             className="flex items-center space-x-2 bg-gray-800/50 backdrop-blur rounded-lg px-3 py-2"
         >
+            {label && <span className="text-xs text-gray-300">{label}</span>}
             <Icon className={`w-4 h-4 ${config.color}`} />
             
             {/* Signal bars */}
@@ -1,17 +1,37 @@
 import { useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { MicOff } from 'lucide-react';
+import { MicOff, User, VideoOff } from 'lucide-react';
 import AudioVisualizer from './AudioVisualizer';
+import NetworkQuality from './NetworkQuality';
+import { CallQuality } from '../types';
 
 interface ParticipantProps {
     stream: MediaStream;
+    /** Shown with initials when there is no video */
+    name?: string;
     isLocal?: boolean;
     isMuted?: boolean;
+    /** The partner turned their camera off; their track keeps running, just dark */
+    isVideoOff?: boolean;
     isSpeaking: boolean;
+    /** Screens are letterboxed rather than cropped, so nothing gets cut off */
+    isScreenShare?: boolean;
+    /** How their end of the link is doing; shown on remote tiles only */
+    connectionQuality?: CallQuality;
+    /** Speaker to play this participant on; null for the system default */
+    audioOutputId?: string | null;
     onAudioLevelChange: (level: number) => void;
 }
 
-const Participant = ({ stream, isLocal = false, isMuted = false, isSpeaking, onAudioLevelChange }: ParticipantProps) => {
+const getInitials = (name: string) => name
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => word[0])
+    .join('')
+    .slice(0, 2)
+    .toUpperCase();
+
+const Participant = ({ stream, name, isLocal = false, isMuted = false, isVideoOff = false, isSpeaking, isScreenShare = false, connectionQuality, audioOutputId = null, onAudioLevelChange }: ParticipantProps) => {
     const videoRef = useRef<HTMLVideoElement>(null);
 
     useEffect(() => {
@@ -20,7 +40,16 @@ const Participant = ({ stream, isLocal = false, isMuted = false, isSpeaking, onA
         }
     }, [stream]);
 
-    const hasVideo = stream.getVideoTracks().length > 0 && stream.getVideoTracks()[0].enabled;
+    useEffect(() => {
+        const video = videoRef.current;
+        if (isLocal || !video || !('setSinkId' in video)) return;
+
+        video.setSinkId(audioOutputId ?? '').catch((error) => {
+            console.warn('Could not switch audio output:', error);
+        });
+    }, [audioOutputId, isLocal]);
+
+    const hasVideo = !isVideoOff && stream.getVideoTracks().length > 0 && stream.getVideoTracks()[0].enabled;
     
     return (
         <div className={`relative w-full h-full bg-surface-1 overflow-hidden transition-all duration-300 ${isLocal ? 'rounded-xl' : ''} ${isSpeaking ? 'shadow-glow-primary' : ''}`}>
@@ -29,13 +58,20 @@ const Participant = ({ stream, isLocal = false, isMuted = false, isSpeaking, onA
                 autoPlay
                 playsInline
                 muted={isLocal}
-                className={`w-full h-full object-cover transition-opacity duration-300 ${hasVideo ? 'opacity-100' : 'opacity-0'}`}
+                className={`w-full h-full ${isScreenShare ? 'object-contain bg-black' : 'object-cover'} transition-opacity duration-300 ${hasVideo ? 'opacity-100' : 'opacity-0'}`}
                 initial={{ opacity: 0 }}
                 animate={{ opacity: hasVideo ? 1 : 0 }}
             />
             {!hasVideo && (
-                <div className="absolute inset-0 flex items-center justify-center bg-surface-1">
-                    {/* Placeholder Avatar Here if needed */}
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-surface-1">
+                    <div className={`flex items-center justify-center rounded-full bg-primary/20 text-primary font-semibold ${isLocal ? 'w-14 h-14 text-lg' : 'w-24 h-24 text-3xl'} ${isSpeaking ? 'ring-2 ring-primary' : ''}`}>
+                        {name ? getInitials(name) : <User size={isLocal ? 24 : 40} />}
+                    </div>
+                    {name && !isLocal && (
+                        <span className="flex items-center gap-1.5 text-sm text-text-secondary">
+                            <VideoOff size={14} /> {name}
+                        </span>
+                    )}
                 </div>
             )}
             {isMuted && (
@@ -43,6 +79,11 @@ const Participant = ({ stream, isLocal = false, isMuted = false, isSpeaking, onA
                     <MicOff size={16} />
                 </div>
             )}
+            {connectionQuality && (
+                <div className="absolute bottom-3 left-3">
+                    <NetworkQuality label={name} quality={connectionQuality} />
+                </div>
+            )}
             {!isLocal && (
                 <AudioVisualizer stream={stream} onAudioLevelChange={onAudioLevelChange} />
             )}
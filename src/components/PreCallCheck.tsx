@@ -0,0 +1,168 @@
+import { useCallback, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, CheckCircle2, Circle, Loader2, PlayCircle, Volume2, X, XCircle } from 'lucide-react';
+import { useStore } from '../store';
+import { CheckResult, CheckStatus, gatherCandidateTypes, playTestTone, rateConnectivity, runLoopbackTest } from '../lib/preCallCheck';
+import { getAudioOutputId } from '../lib/devices';
+import AudioVisualizer from './AudioVisualizer';
+
+interface PreCallCheckProps {
+    getIceServers: () => RTCIceServer[];
+    onClose: () => void;
+}
+
+type ToneState = 'idle' | 'playing' | 'played' | 'heard' | 'failed';
+
+// The meter has to reach this before we believe the mic hears the user
+const SPEECH_LEVEL = 0.15;
+
+const STATUS_ICONS: Record<CheckStatus, { icon: typeof Circle; className: string }> = {
+    idle: { icon: Circle, className: 'text-text-secondary' },
+    running: { icon: Loader2, className: 'text-accent animate-spin' },
+    pass: { icon: CheckCircle2, className: 'text-success' },
+    warn: { icon: AlertTriangle, className: 'text-yellow-400' },
+    fail: { icon: XCircle, className: 'text-danger' },
+};
+
+const NOT_RUN: CheckResult = { status: 'idle', detail: 'Not run yet' };
+
+const PreCallCheck = ({ getIceServers, onClose }: PreCallCheckProps) => {
+    const { localStream, devices, selectedDevices } = useStore();
+    const [level, setLevel] = useState(0);
+    const [heardSpeech, setHeardSpeech] = useState(false);
+    const [toneState, setToneState] = useState<ToneState>('idle');
+    const [loopback, setLoopback] = useState<CheckResult>(NOT_RUN);
+    const [connectivity, setConnectivity] = useState<CheckResult>(NOT_RUN);
+
+    const audioOutputId = getAudioOutputId(devices, selectedDevices);
+    const isRunning = loopback.status === 'running' || connectivity.status === 'running';
+
+    const handleLevel = useCallback((value: number) => {
+        setLevel(value);
+        if (value >= SPEECH_LEVEL) setHeardSpeech(true);
+    }, []);
+
+    const playTone = async () => {
+        setToneState('playing');
+        try {
+            await playTestTone(audioOutputId);
+            setToneState('played');
+        } catch (error) {
+            console.warn('Test tone failed:', error);
+            setToneState('failed');
+        }
+    };
+
+    const runNetworkChecks = async () => {
+        if (!localStream) return;
+        const iceServers = getIceServers();
+        setLoopback({ status: 'running', detail: 'Calling ourselves...' });
+        setConnectivity({ status: 'running', detail: 'Gathering candidates...' });
+
+        await Promise.all([
+            runLoopbackTest(localStream).then(setLoopback),
+            gatherCandidateTypes(iceServers).then(found => setConnectivity(rateConnectivity(found, iceServers))),
+        ]);
+    };
+
+    const getMicrophoneResult = (): CheckResult => {
+        const track = localStream?.getAudioTracks()[0];
+        if (!track || track.readyState === 'ended') return { status: 'fail', detail: 'No microphone found' };
+        if (heardSpeech) return { status: 'pass', detail: 'Picking up sound' };
+        if (!track.enabled || track.muted) return { status: 'warn', detail: 'Your microphone is muted' };
+        return { status: 'warn', detail: 'Say something to test it' };
+    };
+
+    const getCameraResult = (): CheckResult => {
+        const track = localStream?.getVideoTracks()[0];
+        if (!track || track.readyState === 'ended') return { status: 'fail', detail: 'No camera found' };
+        if (track.muted) return { status: 'warn', detail: 'The camera is not delivering any picture' };
+        const { width, height, frameRate } = track.getSettings();
+        return { status: 'pass', detail: `${width}×${height} at ${Math.round(frameRate ?? 0)} fps` };
+    };
+
+    const getSpeakerResult = (): CheckResult => {
+        switch (toneState) {
+            case 'playing': return { status: 'running', detail: 'Playing the test tone...' };
+            case 'played': return { status: 'warn', detail: 'Did you hear the tone?' };
+            case 'heard': return { status: 'pass', detail: 'You heard the test tone' };
+            case 'failed': return { status: 'fail', detail: 'Could not play on this speaker' };
+            default: return { status: 'idle', detail: 'Play the test tone' };
+        }
+    };
+
+    const checklist: { label: string; result: CheckResult }[] = [
+        { label: 'Microphone', result: getMicrophoneResult() },
+        { label: 'Camera', result: getCameraResult() },
+        { label: 'Speaker', result: getSpeakerResult() },
+        { label: 'Encode & decode', result: loopback },
+        { label: 'Network', result: connectivity },
+    ];
+
+    return (
+        <motion.div
+            className="p-4 bg-surface-1 border border-border-default rounded-2xl space-y-4"
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+        >
+            <div className="flex justify-between items-center">
+                <h3 className="font-semibold">Test your setup</h3>
+                <button onClick={onClose} className="p-1 text-text-secondary hover:text-text-primary"><X size={18} /></button>
+            </div>
+
+            {localStream && <AudioVisualizer stream={localStream} onAudioLevelChange={handleLevel} />}
+            <div className="space-y-1">
+                <span className="text-sm text-text-secondary">Microphone level</span>
+                <div className="h-2 bg-surface-2 rounded-full overflow-hidden">
+                    <div
+                        className={`h-full transition-[width] duration-75 ${level >= SPEECH_LEVEL ? 'bg-success' : 'bg-accent'}`}
+                        style={{ width: `${Math.min(100, level * 100)}%` }}
+                    />
+                </div>
+            </div>
+
+            <div className="flex gap-2">
+                <button
+                    onClick={playTone}
+                    disabled={toneState === 'playing'}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-surface-2 hover:bg-primary-hover text-sm disabled:opacity-50"
+                >
+                    <Volume2 size={16} /> Play test tone
+                </button>
+                {toneState === 'played' && (
+                    <button
+                        onClick={() => setToneState('heard')}
+                        className="flex-1 py-2 rounded-lg bg-success/80 hover:bg-success text-sm font-medium"
+                    >
+                        I heard it
+                    </button>
+                )}
+                <button
+                    onClick={runNetworkChecks}
+                    disabled={!localStream || isRunning}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-surface-2 hover:bg-primary-hover text-sm disabled:opacity-50"
+                >
+                    <PlayCircle size={16} /> Run network checks
+                </button>
+            </div>
+
+            <ul className="space-y-2">
+                {checklist.map(({ label, result }) => {
+                    const { icon: Icon, className } = STATUS_ICONS[result.status];
+                    return (
+                        <li key={label} className="flex items-start gap-3 text-sm">
+                            <Icon size={18} className={`shrink-0 mt-0.5 ${className}`} />
+                            <div>
+                                <span className="font-medium">{label}</span>
+                                <p className="text-text-secondary">{result.detail}</p>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </motion.div>
+    );
+};
+
+export default PreCallCheck;
@@ -0,0 +1,346 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import { useStore } from '../store';
+import { AudioChainSettings, AudioCodec, OpusSettings, VideoCodec, VideoLayer, VideoLayerMode } from '../types';
+import DeviceSelector from './DeviceSelector';
+import { keyLabel } from '../lib/shortcuts';
+
+interface SettingsPanelProps {
+    onSelectDevice: (kind: MediaDeviceKind, deviceId: string | null) => void;
+    onClose: () => void;
+}
+
+type ProcessingKey = 'echoCancellation' | 'noiseSuppression' | 'autoGainControl';
+
+const PROCESSING_OPTIONS: { key: ProcessingKey; label: string }[] = [
+    { key: 'echoCancellation', label: 'Echo cancellation' },
+    { key: 'noiseSuppression', label: 'Noise suppression' },
+    { key: 'autoGainControl', label: 'Automatic gain control' },
+];
+
+const CODEC_OPTIONS: { value: AudioCodec; label: string }[] = [
+    { value: 'opus', label: 'Opus' },
+    { value: 'pcmu', label: 'PCMU (G.711 μ-law)' },
+    { value: 'pcma', label: 'PCMA (G.711 A-law)' },
+];
+
+const VIDEO_CODEC_OPTIONS: { value: VideoCodec; label: string }[] = [
+    { value: 'vp8', label: 'VP8' },
+    { value: 'vp9', label: 'VP9' },
+    { value: 'h264', label: 'H.264' },
+    { value: 'av1', label: 'AV1' },
+];
+
+const LAYER_MODE_OPTIONS: { value: VideoLayerMode; label: string }[] = [
+    { value: 'single', label: 'Single stream' },
+    { value: 'scaled', label: 'Scale to the receiver' },
+    { value: 'svc', label: 'SVC (VP9/AV1)' },
+];
+
+const RECEIVE_LAYER_OPTIONS: { value: VideoLayer | 'auto'; label: string }[] = [
+    { value: 'auto', label: 'Automatic' },
+    { value: 'low', label: 'Low' },
+    { value: 'mid', label: 'Medium' },
+    { value: 'high', label: 'High' },
+];
+
+type ChainStage = Exclude<keyof AudioChainSettings, 'enabled'>;
+
+// Stages in signal order; the ones with a value get a slider
+const CHAIN_STAGES: { stage: ChainStage; label: string; slider?: { min: number; max: number; step: number; unit: string } }[] = [
+    { stage: 'highPass', label: 'High-pass filter', slider: { min: 40, max: 300, step: 10, unit: 'Hz' } },
+    { stage: 'gain', label: 'Input gain', slider: { min: -12, max: 12, step: 1, unit: 'dB' } },
+    { stage: 'noiseGate', label: 'Noise gate', slider: { min: -80, max: -20, step: 1, unit: 'dBFS' } },
+    { stage: 'compressor', label: 'Compressor' },
+];
+
+// The one number each adjustable stage has
+const stageValue = (chain: AudioChainSettings, stage: ChainStage): number => {
+    switch (stage) {
+        case 'highPass': return chain.highPass.frequency;
+        case 'gain': return chain.gain.value;
+        case 'noiseGate': return chain.noiseGate.threshold;
+        default: return 0;
+    }
+};
+
+const withStageValue = (chain: AudioChainSettings, stage: ChainStage, value: number): Partial<AudioChainSettings> => {
+    switch (stage) {
+        case 'highPass': return { highPass: { ...chain.highPass, frequency: value } };
+        case 'gain': return { gain: { ...chain.gain, value } };
+        case 'noiseGate': return { noiseGate: { ...chain.noiseGate, threshold: value } };
+        default: return {};
+    }
+};
+
+type OpusToggle = 'fec' | 'dtx' | 'stereo';
+
+const OPUS_TOGGLES: { key: OpusToggle; label: string }[] = [
+    { key: 'fec', label: 'Forward error correction' },
+    { key: 'dtx', label: 'Silence suppression (DTX)' },
+    { key: 'stereo', label: 'Stereo' },
+];
+
+const OPUS_BITRATES = [16000, 32000, 64000, 128000, 256000];
+const PACKET_TIMES = [10, 20, 40, 60];
+
+const VIDEO_BITRATES = [250000, 500000, 1000000, 2500000, 4000000];
+const AUDIO_BITRATES = [16000, 32000, 64000, 128000];
+
+const formatBitrate = (bps: number) => bps >= 1000000 ? `${bps / 1000000} Mbps` : `${bps / 1000} kbps`;
+
+const SettingsPanel = ({ onSelectDevice, onClose }: SettingsPanelProps) => {
+    const { settings, updateSettings } = useStore();
+
+    const updateOpus = (opus: Partial<OpusSettings>) => updateSettings({ opus: { ...settings.opus, ...opus } });
+    const updateChain = (chain: Partial<AudioChainSettings>) => updateSettings({ audioChain: { ...settings.audioChain, ...chain } });
+    const chain = settings.audioChain;
+    const [capturingKey, setCapturingKey] = useState(false);
+
+    useEffect(() => {
+        if (!capturingKey) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            // Captured before the in-call shortcuts see it, so the key doesn't also act
+            event.preventDefault();
+            event.stopPropagation();
+            if (event.code !== 'Escape') updateSettings({ pushToTalkKey: event.code });
+            setCapturingKey(false);
+        };
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [capturingKey, updateSettings]);
+
+    const selectClass = 'w-full p-2 bg-surface-1 border border-border-default rounded-lg text-sm text-text-primary focus:outline-none';
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, x: 100 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 100 }}
+            className="absolute top-0 right-0 h-full w-80 bg-surface-1/80 backdrop-blur-xl border-l border-border-default p-6 z-50 overflow-y-auto"
+        >
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-xl font-bold">Settings</h2>
+                <button onClick={onClose} className="p-1 text-text-secondary hover:text-text-primary"><X size={20}/></button>
+            </div>
+
+            <div className="space-y-6">
+                <section>
+                    <h3 className="font-semibold mb-2">Devices</h3>
+                    <DeviceSelector onSelect={onSelectDevice} />
+                </section>
+
+                <section>
+                    <h3 className="font-semibold mb-2">Audio processing</h3>
+                    <div className="space-y-2 text-sm">
+                        {PROCESSING_OPTIONS.map(({ key, label }) => (
+                            <label key={key} className="flex items-center justify-between">
+                                <span className="text-text-secondary">{label}</span>
+                                <input
+                                    type="checkbox"
+                                    checked={settings[key]}
+                                    onChange={(e) => updateSettings({ [key]: e.target.checked })}
+                                    className="accent-primary"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                </section>
+
+                <section className="space-y-3 text-sm">
+                    <label className="flex items-center justify-between">
+                        <h3 className="font-semibold">Processing chain</h3>
+                        <input
+                            type="checkbox"
+                            checked={chain.enabled}
+                            onChange={(e) => updateChain({ enabled: e.target.checked })}
+                            className="accent-primary"
+                        />
+                    </label>
+                    {CHAIN_STAGES.map(({ stage, label, slider }) => (
+                        <div key={stage} className={`space-y-1 ${chain.enabled ? '' : 'opacity-50'}`}>
+                            <label className="flex items-center justify-between">
+                                <span className="text-text-secondary">{label}</span>
+                                <input
+                                    type="checkbox"
+                                    checked={chain[stage].enabled}
+                                    disabled={!chain.enabled}
+                                    onChange={(e) => updateChain({ [stage]: { ...chain[stage], enabled: e.target.checked } })}
+                                    className="accent-primary"
+                                    title="Uncheck to bypass this stage"
+                                />
+                            </label>
+                            {slider && (
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="range"
+                                        min={slider.min}
+                                        max={slider.max}
+                                        step={slider.step}
+                                        value={stageValue(chain, stage)}
+                                        disabled={!chain.enabled || !chain[stage].enabled}
+                                        onChange={(e) => updateChain(withStageValue(chain, stage, Number(e.target.value)))}
+                                        className="flex-1 accent-primary"
+                                    />
+                                    <span className="w-20 text-right text-xs text-text-secondary">{stageValue(chain, stage)} {slider.unit}</span>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </section>
+
+                <section className="space-y-3 text-sm">
+                    <label className="flex items-center justify-between">
+                        <h3 className="font-semibold">Push-to-talk</h3>
+                        <input
+                            type="checkbox"
+                            checked={settings.pushToTalk}
+                            onChange={(e) => updateSettings({ pushToTalk: e.target.checked })}
+                            className="accent-primary"
+                        />
+                    </label>
+                    <div className={`flex items-center justify-between ${settings.pushToTalk ? '' : 'opacity-50'}`}>
+                        <span className="text-text-secondary">Hold to talk</span>
+                        <button
+                            onClick={() => setCapturingKey(true)}
+                            disabled={!settings.pushToTalk}
+                            className="px-3 py-1 bg-surface-2 border border-border-default rounded text-xs font-mono hover:bg-primary-hover"
+                        >
+                            {capturingKey ? 'Press a key...' : keyLabel(settings.pushToTalkKey)}
+                        </button>
+                    </div>
+                    <label className={`flex items-center justify-between ${settings.pushToTalk ? 'opacity-50' : ''}`}>
+                        <span className="text-text-secondary">Hold Space to unmute</span>
+                        <input
+                            type="checkbox"
+                            checked={settings.spaceToUnmute}
+                            disabled={settings.pushToTalk}
+                            onChange={(e) => updateSettings({ spaceToUnmute: e.target.checked })}
+                            className="accent-primary"
+                        />
+                    </label>
+                </section>
+
+                <section className="space-y-3 text-sm">
+                    <h3 className="font-semibold">Quality</h3>
+                    <label className="block space-y-1">
+                        <span className="text-text-secondary">Preferred audio codec</span>
+                        <select
+                            value={settings.preferredCodec}
+                            onChange={(e) => updateSettings({ preferredCodec: e.target.value as AudioCodec })}
+                            className={selectClass}
+                        >
+                            {CODEC_OPTIONS.map(({ value, label }) => (
+                                <option key={value} value={value} className="bg-surface-1">{label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="text-text-secondary">Preferred video codec</span>
+                        <select
+                            value={settings.preferredVideoCodec}
+                            onChange={(e) => updateSettings({ preferredVideoCodec: e.target.value as VideoCodec })}
+                            className={selectClass}
+                        >
+                            {VIDEO_CODEC_OPTIONS.map(({ value, label }) => (
+                                <option key={value} value={value} className="bg-surface-1">{label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="text-text-secondary">Video layers</span>
+                        <select
+                            value={settings.videoLayerMode}
+                            onChange={(e) => updateSettings({ videoLayerMode: e.target.value as VideoLayerMode })}
+                            className={selectClass}
+                        >
+                            {LAYER_MODE_OPTIONS.map(({ value, label }) => (
+                                <option key={value} value={value} className="bg-surface-1">{label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="text-text-secondary">Receive quality</span>
+                        <select
+                            value={settings.receiveLayer}
+                            onChange={(e) => updateSettings({ receiveLayer: e.target.value as VideoLayer | 'auto' })}
+                            className={selectClass}
+                        >
+                            {RECEIVE_LAYER_OPTIONS.map(({ value, label }) => (
+                                <option key={value} value={value} className="bg-surface-1">{label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="text-text-secondary">Max video bitrate</span>
+                        <select
+                            value={settings.videoBitrate}
+                            onChange={(e) => updateSettings({ videoBitrate: Number(e.target.value) })}
+                            className={selectClass}
+                        >
+                            {VIDEO_BITRATES.map(bps => (
+                                <option key={bps} value={bps} className="bg-surface-1">{formatBitrate(bps)}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="text-text-secondary">Max audio bitrate</span>
+                        <select
+                            value={settings.audioBitrate}
+                            onChange={(e) => updateSettings({ audioBitrate: Number(e.target.value) })}
+                            className={selectClass}
+                        >
+                            {AUDIO_BITRATES.map(bps => (
+                                <option key={bps} value={bps} className="bg-surface-1">{formatBitrate(bps)}</option>
+                            ))}
+                        </select>
+                    </label>
+                </section>
+
+                {settings.preferredCodec === 'opus' && (
+                    <section className="space-y-3 text-sm">
+                        <h3 className="font-semibold">Opus</h3>
+                        {OPUS_TOGGLES.map(({ key, label }) => (
+                            <label key={key} className="flex items-center justify-between">
+                                <span className="text-text-secondary">{label}</span>
+                                <input
+                                    type="checkbox"
+                                    checked={settings.opus[key]}
+                                    onChange={(e) => updateOpus({ [key]: e.target.checked })}
+                                    className="accent-primary"
+                                />
+                            </label>
+                        ))}
+                        <label className="block space-y-1">
+                            <span className="text-text-secondary">Average bitrate</span>
+                            <select
+                                value={settings.opus.maxAverageBitrate}
+                                onChange={(e) => updateOpus({ maxAverageBitrate: Number(e.target.value) })}
+                                className={selectClass}
+                            >
+                                {OPUS_BITRATES.map(bps => (
+                                    <option key={bps} value={bps} className="bg-surface-1">{formatBitrate(bps)}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="block space-y-1">
+                            <span className="text-text-secondary">Packet duration</span>
+                            <select
+                                value={settings.opus.ptime}
+                                onChange={(e) => updateOpus({ ptime: Number(e.target.value) })}
+                                className={selectClass}
+                            >
+                                {PACKET_TIMES.map(ms => (
+                                    <option key={ms} value={ms} className="bg-surface-1">{ms} ms</option>
+                                ))}
+                            </select>
+                        </label>
+                    </section>
+                )}
+            </div>
+        </motion.div>
+    );
+};
+
+export default SettingsPanel;
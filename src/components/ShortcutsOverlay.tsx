@@ -0,0 +1,70 @@
+import { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Keyboard, X } from 'lucide-react';
+import { useStore } from '../store';
+import { SHORTCUTS, keyLabel } from '../lib/shortcuts';
+
+interface ShortcutsOverlayProps {
+    onClose: () => void;
+}
+
+const Key = ({ children }: { children: string }) => (
+    <kbd className="px-2 py-0.5 bg-surface-2 border border-border-default rounded text-xs font-mono text-text-primary">{children}</kbd>
+);
+
+const ShortcutsOverlay = ({ onClose }: ShortcutsOverlayProps) => {
+    const { settings } = useStore();
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const holdToTalk = settings.pushToTalk
+        ? { key: keyLabel(settings.pushToTalkKey), label: 'Hold to talk' }
+        : settings.spaceToUnmute
+            ? { key: keyLabel('Space'), label: 'Hold to unmute for a moment' }
+            : null;
+
+    return (
+        <motion.div
+            className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+        >
+            <motion.div
+                className="w-80 p-6 bg-surface-1 border border-border-default rounded-2xl shadow-lg"
+                initial={{ scale: 0.95 }}
+                animate={{ scale: 1 }}
+                exit={{ scale: 0.95 }}
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="flex items-center gap-2 text-lg font-bold"><Keyboard size={20} /> Keyboard shortcuts</h2>
+                    <button onClick={onClose} className="p-1 text-text-secondary hover:text-text-primary"><X size={18} /></button>
+                </div>
+                <ul className="space-y-2 text-sm">
+                    {holdToTalk && (
+                        <li className="flex items-center justify-between">
+                            <span className="text-text-secondary">{holdToTalk.label}</span>
+                            <Key>{holdToTalk.key}</Key>
+                        </li>
+                    )}
+                    {SHORTCUTS.map(shortcut => (
+                        <li key={shortcut.action} className="flex items-center justify-between">
+                            <span className="text-text-secondary">{shortcut.label}</span>
+                            <Key>{keyLabel(shortcut.code, shortcut.shift)}</Key>
+                        </li>
+                    ))}
+                </ul>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+export default ShortcutsOverlay;
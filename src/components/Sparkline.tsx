@@ -0,0 +1,27 @@
+interface SparklineProps {
+    values: number[];
+    width?: number;
+    height?: number;
+    className?: string;
+}
+
+// A bare trend line, scaled from zero (or the lowest value) to the highest value
+const Sparkline = ({ values, width = 240, height = 28, className = 'text-accent' }: SparklineProps) => {
+    const min = Math.min(0, ...values);
+    const range = Math.max(...values) - min || 1;
+    const points = values.map((value, index) => {
+        const x = values.length > 1 ? (index / (values.length - 1)) * width : 0;
+        const y = height - 1 - ((value - min) / range) * (height - 2);
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+    }).join(' ');
+
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className={`w-full ${className}`} style={{ height }}>
+            {values.length > 1 && (
+                <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+            )}
+        </svg>
+    );
+};
+
+export default Sparkline;
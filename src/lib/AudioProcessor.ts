@@ -0,0 +1,183 @@
+// src/lib/AudioProcessor.ts - Web Audio chain between the microphone and the senders
+//
+// mic → high-pass → input gain → noise gate → compressor → the track we send.
+// Bypassing a stage rewires the graph around it, so every stage can be
+// switched on and off during a call and compared by ear. The microphone
+// track itself stays untouched; device switches just change the input.
+import { AudioChainSettings } from '../types';
+
+type Stage = 'highPass' | 'gain' | 'noiseGate' | 'compressor';
+
+const STAGE_ORDER: Stage[] = ['highPass', 'gain', 'noiseGate', 'compressor'];
+
+// Speech-friendly settings: catch peaks without pumping on normal talking
+const COMPRESSOR = {
+    threshold: -24,
+    knee: 12,
+    ratio: 4,
+    attack: 0.003,
+    release: 0.25
+};
+
+// Seconds over which parameter changes glide, so slider moves don't click
+const PARAM_SMOOTHING = 0.02;
+
+// Runs on the audio thread, so the gate reacts per sample even when the tab
+// is in the background. Opens fast, holds through short pauses between
+// words, then fades out.
+const NOISE_GATE_WORKLET = `
+const ATTACK = 1 - Math.exp(-1 / (0.002 * sampleRate));
+const RELEASE = 1 - Math.exp(-1 / (0.08 * sampleRate));
+const ENVELOPE_DECAY = Math.exp(-1 / (0.01 * sampleRate));
+const HOLD_SAMPLES = Math.round(0.2 * sampleRate);
+
+class NoiseGateProcessor extends AudioWorkletProcessor {
+    static get parameterDescriptors() {
+        return [{ name: 'threshold', defaultValue: -50, minValue: -100, maxValue: 0, automationRate: 'k-rate' }];
+    }
+
+    constructor() {
+        super();
+        this.envelope = 0;
+        this.gain = 0;
+        this.hold = 0;
+    }
+
+    process(inputs, outputs, parameters) {
+        const input = inputs[0];
+        const output = outputs[0];
+        if (input.length === 0) return true;
+
+        const threshold = Math.pow(10, parameters.threshold[0] / 20);
+        for (let i = 0; i < input[0].length; i++) {
+            let peak = 0;
+            for (const channel of input) peak = Math.max(peak, Math.abs(channel[i]));
+
+            this.envelope = peak > this.envelope ? peak : this.envelope * ENVELOPE_DECAY;
+            if (this.envelope >= threshold) {
+                this.hold = HOLD_SAMPLES;
+            } else if (this.hold > 0) {
+                this.hold--;
+            }
+
+            const target = this.hold > 0 ? 1 : 0;
+            this.gain += (target - this.gain) * (target > this.gain ? ATTACK : RELEASE);
+            for (let channel = 0; channel < output.length; channel++) {
+                output[channel][i] = (input[channel] ?? input[0])[i] * this.gain;
+            }
+        }
+        return true;
+    }
+}
+
+registerProcessor('noise-gate', NoiseGateProcessor);
+`;
+
+export default class AudioProcessor {
+    private context: AudioContext;
+    private source: MediaStreamAudioSourceNode | null = null;
+    private destination: MediaStreamAudioDestinationNode;
+    private highPass: BiquadFilterNode;
+    private gain: GainNode;
+    /** null where AudioWorklet is unavailable (insecure origins, old browsers) */
+    private noiseGate: AudioWorkletNode | null;
+    private compressor: DynamicsCompressorNode;
+    private settings: AudioChainSettings;
+
+    private constructor(context: AudioContext, noiseGate: AudioWorkletNode | null, settings: AudioChainSettings) {
+        this.context = context;
+        this.noiseGate = noiseGate;
+        this.settings = settings;
+        this.destination = context.createMediaStreamDestination();
+
+        this.highPass = context.createBiquadFilter();
+        this.highPass.type = 'highpass';
+        this.gain = context.createGain();
+        this.compressor = context.createDynamicsCompressor();
+        this.compressor.threshold.value = COMPRESSOR.threshold;
+        this.compressor.knee.value = COMPRESSOR.knee;
+        this.compressor.ratio.value = COMPRESSOR.ratio;
+        this.compressor.attack.value = COMPRESSOR.attack;
+        this.compressor.release.value = COMPRESSOR.release;
+
+        this.update(settings);
+    }
+
+    static async create(settings: AudioChainSettings): Promise<AudioProcessor> {
+        const context = new AudioContext();
+
+        let noiseGate: AudioWorkletNode | null = null;
+        try {
+            const url = URL.createObjectURL(new Blob([NOISE_GATE_WORKLET], { type: 'application/javascript' }));
+            await context.audioWorklet.addModule(url);
+            URL.revokeObjectURL(url);
+            noiseGate = new AudioWorkletNode(context, 'noise-gate');
+        } catch (error) {
+            console.warn('Noise gate unavailable:', error);
+        }
+
+        return new AudioProcessor(context, noiseGate, settings);
+    }
+
+    /** The processed audio; the same track for the processor's whole life */
+    get track(): MediaStreamTrack {
+        return this.destination.stream.getAudioTracks()[0];
+    }
+
+    // A context created before any user gesture starts suspended and outputs silence
+    get isRunning(): boolean {
+        return this.context.state === 'running';
+    }
+
+    resume(): Promise<void> {
+        return this.context.resume();
+    }
+
+    setInput(track: MediaStreamTrack | null): void {
+        this.source?.disconnect();
+        this.source = track ? this.context.createMediaStreamSource(new MediaStream([track])) : null;
+        this.connect();
+    }
+
+    update(settings: AudioChainSettings): void {
+        // Slider moves only touch parameters; rewiring is for bypass toggles
+        const rewire = STAGE_ORDER.some(stage => settings[stage].enabled !== this.settings[stage].enabled);
+        this.settings = settings;
+        const now = this.context.currentTime;
+
+        this.highPass.frequency.setTargetAtTime(settings.highPass.frequency, now, PARAM_SMOOTHING);
+        this.gain.gain.setTargetAtTime(Math.pow(10, settings.gain.value / 20), now, PARAM_SMOOTHING);
+        this.noiseGate?.parameters.get('threshold')?.setValueAtTime(settings.noiseGate.threshold, now);
+
+        if (rewire) this.connect();
+    }
+
+    close(): void {
+        this.source?.disconnect();
+        this.source = null;
+        this.track.stop();
+        this.context.close();
+    }
+
+    // Rebuilds the chain from the enabled stages, in their fixed order
+    private connect(): void {
+        const nodes: Record<Stage, AudioNode | null> = {
+            highPass: this.highPass,
+            gain: this.gain,
+            noiseGate: this.noiseGate,
+            compressor: this.compressor
+        };
+
+        this.source?.disconnect();
+        STAGE_ORDER.forEach(stage => nodes[stage]?.disconnect());
+        if (!this.source) return;
+
+        const chain = STAGE_ORDER
+            .filter(stage => this.settings[stage].enabled)
+            .map(stage => nodes[stage])
+            .filter((node): node is AudioNode => node !== null);
+
+        const last = chain.reduce<AudioNode>((previous, node) => previous.connect(node), this.source);
+        last.connect(this.destination);
+    }
+}
@@ -0,0 +1,190 @@
+// src/lib/BandwidthController.ts - Decides how much we send to one peer
+//
+// A send budget is cut quickly on congestion (loss the partner reports,
+// RTT climbing above its baseline, the browser's bandwidth estimate) and
+// grown back slowly once the link has been healthy for a while. The budget
+// is split between audio and video, and video gets a resolution and frame
+// rate that suit its share; below a floor the video is switched off.
+import { CallStats } from '../types';
+
+export interface Ceilings {
+    /** Bits per second */
+    video: number;
+    audio: number;
+}
+
+export interface BandwidthDecision {
+    /** Total send budget, bits per second */
+    budget: number;
+    video: {
+        active: boolean;
+        maxBitrate: number;
+        scaleResolutionDownBy: number;
+        maxFramerate: number;
+    };
+    audio: {
+        maxBitrate: number;
+    };
+    reason: string;
+}
+
+// Below this much for video we stop sending it (bps)...
+const VIDEO_FLOOR = 100000;
+// ...and only bring it back once it could get this much
+const VIDEO_RESUME = 150000;
+const AUDIO_FLOOR = 16000;
+// Audio gets up to this share of the budget, it matters most
+const AUDIO_SHARE = 0.25;
+
+const HEAVY_LOSS = 10;
+const LOSS = 2;
+const HEAVY_LOSS_BACKOFF = 0.7;
+const BACKOFF = 0.85;
+// Stay below the browser's estimate so queues can drain
+const ESTIMATE_HEADROOM = 0.85;
+
+// Healthy samples needed after a cut before growing again, and how fast
+const HOLD_SAMPLES = 3;
+const RAMP_FACTOR = 1.08;
+const RAMP_STEP = 20000;
+
+// RTT counts as rising when it's this far above the lowest one seen recently
+const RTT_BASELINE_WINDOW = 30;
+const RTT_RISE_FACTOR = 1.5;
+const RTT_RISE_MARGIN = 30;
+
+// Camera resolution and frame rate for a given video bitrate, best first
+const VIDEO_LADDER: { minBitrate: number; scaleResolutionDownBy: number; maxFramerate: number }[] = [
+    { minBitrate: 1200000, scaleResolutionDownBy: 1, maxFramerate: 30 },
+    { minBitrate: 600000, scaleResolutionDownBy: 1.5, maxFramerate: 30 },
+    { minBitrate: 300000, scaleResolutionDownBy: 2, maxFramerate: 24 },
+    { minBitrate: 150000, scaleResolutionDownBy: 3, maxFramerate: 15 },
+    { minBitrate: 0, scaleResolutionDownBy: 4, maxFramerate: 15 }
+];
+
+export default class BandwidthController {
+    private ceilings: Ceilings;
+    private budget: number;
+    private videoActive = true;
+    private healthySamples = 0;
+    private recentRtts: number[] = [];
+    private decision: BandwidthDecision;
+
+    constructor(ceilings: Ceilings) {
+        this.ceilings = ceilings;
+        this.budget = ceilings.video + ceilings.audio;
+        // Something to send with before the first stats arrive: the user's ceilings
+        this.decision = this.decide('starting budget');
+    }
+
+    get current(): BandwidthDecision {
+        return this.decision;
+    }
+
+    // Returns a decision only when something changed
+    update(stats: CallStats): BandwidthDecision | null {
+        const loss = Math.max(stats.audio.outbound.packetLoss, stats.video.outbound.packetLoss);
+        const rtt = stats.connection.roundTripTime;
+        const estimate = stats.connection.availableOutgoingBitrate;
+        const rttRising = this.trackRtt(rtt);
+        const maximum = this.ceilings.video + this.ceilings.audio;
+
+        let reason: string;
+        if (loss >= HEAVY_LOSS) {
+            this.budget *= HEAVY_LOSS_BACKOFF;
+            this.healthySamples = 0;
+            reason = `heavy loss ${loss.toFixed(1)}%`;
+        } else if (loss >= LOSS) {
+            this.budget *= BACKOFF;
+            this.healthySamples = 0;
+            reason = `loss ${loss.toFixed(1)}%`;
+        } else if (rttRising) {
+            this.budget *= BACKOFF;
+            this.healthySamples = 0;
+            reason = `RTT rising to ${rtt.toFixed(0)} ms`;
+        } else if (estimate > 0 && this.budget > estimate * ESTIMATE_HEADROOM) {
+            this.budget = estimate * ESTIMATE_HEADROOM;
+            this.healthySamples = 0;
+            reason = `bandwidth estimate ${kbps(estimate)}`;
+        } else if (++this.healthySamples >= HOLD_SAMPLES && this.budget < maximum) {
+            const limit = estimate > 0 ? Math.min(maximum, estimate * ESTIMATE_HEADROOM) : maximum;
+            this.budget = Math.min(limit, this.budget * RAMP_FACTOR + RAMP_STEP);
+            reason = 'ramping up';
+        } else {
+            reason = 'holding';
+        }
+
+        this.budget = Math.max(AUDIO_FLOOR, Math.min(maximum, this.budget));
+        return this.commit(reason);
+    }
+
+    // New user ceilings; the budget follows them down but ramps up to them as usual
+    setCeilings(ceilings: Ceilings): BandwidthDecision | null {
+        this.ceilings = ceilings;
+        this.budget = Math.min(this.budget, ceilings.video + ceilings.audio);
+        return this.commit('ceilings changed');
+    }
+
+    private trackRtt(rtt: number): boolean {
+        if (rtt <= 0) return false;
+
+        this.recentRtts.push(rtt);
+        if (this.recentRtts.length > RTT_BASELINE_WINDOW) this.recentRtts.shift();
+
+        const baseline = Math.min(...this.recentRtts);
+        const previous = this.recentRtts[this.recentRtts.length - 2] ?? rtt;
+        return rtt > baseline * RTT_RISE_FACTOR + RTT_RISE_MARGIN && rtt >= previous;
+    }
+
+    private commit(reason: string): BandwidthDecision | null {
+        const decision = this.decide(reason);
+
+        // Small budget moves that don't change what we send aren't worth a setParameters
+        const previous = this.decision;
+        if (previous.video.active === decision.video.active &&
+            previous.video.scaleResolutionDownBy === decision.video.scaleResolutionDownBy &&
+            previous.video.maxFramerate === decision.video.maxFramerate &&
+            Math.abs(previous.video.maxBitrate - decision.video.maxBitrate) < previous.video.maxBitrate * 0.05 &&
+            previous.audio.maxBitrate === decision.audio.maxBitrate) {
+            return null;
+        }
+
+        this.decision = decision;
+        return decision;
+    }
+
+    private decide(reason: string): BandwidthDecision {
+        const audio = Math.min(this.ceilings.audio, Math.max(AUDIO_FLOOR, this.budget * AUDIO_SHARE));
+        const video = Math.min(this.ceilings.video, this.budget - audio);
+
+        this.videoActive = this.videoActive ? video >= VIDEO_FLOOR : video >= VIDEO_RESUME;
+        const rung = VIDEO_LADDER.find(step => video >= step.minBitrate) ?? VIDEO_LADDER[VIDEO_LADDER.length - 1];
+
+        return {
+            budget: Math.round(this.budget),
+            video: {
+                active: this.videoActive,
+                maxBitrate: Math.round(Math.max(0, video)),
+                scaleResolutionDownBy: rung.scaleResolutionDownBy,
+                maxFramerate: rung.maxFramerate
+            },
+            // Audio-only calls give audio everything the budget allows
+            audio: {
+                maxBitrate: Math.round(this.videoActive ? audio : Math.min(this.ceilings.audio, this.budget))
+            },
+            reason
+        };
+    }
+}
+
+export function describeDecision(decision: BandwidthDecision): string {
+    const { budget, video, audio, reason } = decision;
+    const videoPart = video.active
+        ? `video ${kbps(video.maxBitrate)} at 1/${video.scaleResolutionDownBy} scale, ${video.maxFramerate} fps`
+        : 'audio only';
+    return `${reason}: budget ${kbps(budget)}, ${videoPart}, audio ${kbps(audio.maxBitrate)}`;
+}
+
+function kbps(bps: number): string {
+    return `${Math.round(bps / 1000)} kbps`;
+}
@@ -0,0 +1,292 @@
+// src/lib/CallRecorder.ts - Records the call as seen on screen into a WebM file
+//
+// Audio from every participant is mixed through Web Audio; video is drawn
+// onto a canvas in the same arrangement as the call view (remote tiles in a
+// grid, our own camera as a picture-in-picture in the top right corner).
+// Chunks are streamed into a file in the origin private file system as they
+// arrive, so a long call doesn't pile up in memory.
+
+export interface RecordingTile {
+    stream: MediaStream;
+    /** Screens are letterboxed so nothing gets cropped, cameras fill their tile */
+    fit: 'cover' | 'contain';
+}
+
+export interface RecordingLayout {
+    tiles: RecordingTile[];
+    local: MediaStream | null;
+}
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FRAME_RATE = 30;
+const GAP = 4;
+const PIP_WIDTH = 224;
+const PIP_MARGIN = 16;
+// MediaRecorder hands out a chunk this often (ms)
+const CHUNK_INTERVAL = 1000;
+const RECORDINGS_DIRECTORY = 'recordings';
+
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+interface RecordingFile {
+    handle: FileSystemFileHandle;
+    writable: FileSystemWritableFileStream;
+    error: unknown;
+}
+
+export function isRecordingSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+}
+
+export function recordingFileName(date = new Date()): string {
+    return `call-${date.toISOString().slice(0, 19).replace(/:/g, '-')}.webm`;
+}
+
+export default class CallRecorder {
+    private layout: RecordingLayout = { tiles: [], local: null };
+    private audioContext: AudioContext | null = null;
+    private audioDestination: MediaStreamAudioDestinationNode | null = null;
+    private audioSources = new Map<string, MediaStreamAudioSourceNode>();
+    private videos = new Map<string, HTMLVideoElement>();
+    private canvas: HTMLCanvasElement | null = null;
+    private drawTimer: ReturnType<typeof setInterval> | null = null;
+    private recorder: MediaRecorder | null = null;
+    /** Resolves to null where the origin private file system isn't available */
+    private file: Promise<RecordingFile | null> = Promise.resolve(null);
+    // Keeps chunk writes in order
+    private writes: Promise<void> = Promise.resolve();
+    /** Chunks for browsers that can't write to a file; only used as a fallback */
+    private chunks: Blob[] = [];
+
+    get isRecording(): boolean {
+        return this.recorder?.state === 'recording';
+    }
+
+    start(layout: RecordingLayout): void {
+        if (this.recorder) return;
+        if (!isRecordingSupported()) {
+            throw new Error('Recording is not supported in this browser');
+        }
+
+        this.audioContext = new AudioContext();
+        this.audioDestination = this.audioContext.createMediaStreamDestination();
+        this.canvas = document.createElement('canvas');
+        this.canvas.width = WIDTH;
+        this.canvas.height = HEIGHT;
+        this.update(layout);
+
+        // A timer rather than requestAnimationFrame, which stops entirely in a
+        // background tab (timers are only throttled)
+        this.drawTimer = setInterval(() => this.drawFrame(), 1000 / FRAME_RATE);
+
+        const stream = new MediaStream([
+            ...this.canvas.captureStream(FRAME_RATE).getVideoTracks(),
+            ...this.audioDestination.stream.getAudioTracks()
+        ]);
+        const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+        this.chunks = [];
+        this.file = openRecordingFile();
+        this.writes = Promise.resolve();
+        this.recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+        this.recorder.ondataavailable = (event) => {
+            const data = event.data;
+            if (data.size > 0) this.writes = this.writes.then(() => this.store(data));
+        };
+        this.recorder.start(CHUNK_INTERVAL);
+    }
+
+    // Called whenever participants or their streams change
+    update(layout: RecordingLayout): void {
+        this.layout = layout;
+        if (!this.audioContext) return;
+
+        const streams = [...layout.tiles.map(tile => tile.stream), ...(layout.local ? [layout.local] : [])];
+        const streamIds = new Set(streams.map(stream => stream.id));
+
+        this.videos.forEach((video, id) => {
+            if (streamIds.has(id)) return;
+            video.srcObject = null;
+            this.videos.delete(id);
+        });
+        streams.forEach(stream => this.getVideo(stream));
+
+        this.syncAudio();
+    }
+
+    stop(): Promise<Blob> {
+        const recorder = this.recorder;
+        if (!recorder) return Promise.reject(new Error('Not recording'));
+
+        return new Promise((resolve, reject) => {
+            // The last chunk arrives before 'stop'
+            recorder.onstop = () => {
+                this.finish().then(resolve, reject).finally(() => this.cleanup());
+            };
+            recorder.stop();
+        });
+    }
+
+    private async store(data: Blob): Promise<void> {
+        const file = await this.file;
+        if (!file) {
+            this.chunks.push(data);
+            return;
+        }
+        if (file.error) return;
+
+        try {
+            await file.writable.write(data);
+        } catch (error) {
+            // Nothing is committed once a write fails, so the whole recording is lost
+            console.error('Could not write the recording:', error);
+            file.error = error;
+        }
+    }
+
+    private async finish(): Promise<Blob> {
+        await this.writes;
+        const file = await this.file;
+        if (!file) return new Blob(this.chunks, { type: 'video/webm' });
+
+        if (file.error) {
+            await file.writable.abort().catch(() => {});
+            throw new Error('The recording could not be written to disk');
+        }
+        await file.writable.close();
+        // Backed by the file on disk, not read into memory
+        return file.handle.getFile();
+    }
+
+    private getVideo(stream: MediaStream): HTMLVideoElement {
+        let video = this.videos.get(stream.id);
+        if (!video) {
+            video = document.createElement('video');
+            video.muted = true;
+            video.playsInline = true;
+            video.srcObject = stream;
+            video.play().catch((error) => console.warn('Recording source did not start:', error));
+            this.videos.set(stream.id, video);
+        }
+        return video;
+    }
+
+    // Tracks can be swapped inside a stream (device changes), so sources are
+    // kept per track and re-checked on every frame
+    private syncAudio(): void {
+        if (!this.audioContext || !this.audioDestination) return;
+
+        const tracks = [...this.layout.tiles.map(tile => tile.stream), ...(this.layout.local ? [this.layout.local] : [])]
+            .flatMap(stream => stream.getAudioTracks())
+            .filter(track => track.readyState === 'live');
+        const trackIds = new Set(tracks.map(track => track.id));
+
+        this.audioSources.forEach((source, id) => {
+            if (trackIds.has(id)) return;
+            source.disconnect();
+            this.audioSources.delete(id);
+        });
+
+        for (const track of tracks) {
+            if (this.audioSources.has(track.id)) continue;
+            const source = this.audioContext.createMediaStreamSource(new MediaStream([track]));
+            source.connect(this.audioDestination);
+            this.audioSources.set(track.id, source);
+        }
+    }
+
+    private drawFrame(): void {
+        const context = this.canvas?.getContext('2d');
+        if (!context) return;
+
+        this.syncAudio();
+
+        context.fillStyle = '#000';
+        context.fillRect(0, 0, WIDTH, HEIGHT);
+
+        // Same breakpoints as the call view on a wide screen
+        const { tiles, local } = this.layout;
+        const columns = tiles.length <= 1 ? 1 : tiles.length <= 4 ? 2 : 3;
+        const rows = Math.max(1, Math.ceil(tiles.length / columns));
+        const tileWidth = (WIDTH - GAP * (columns - 1)) / columns;
+        const tileHeight = (HEIGHT - GAP * (rows - 1)) / rows;
+
+        tiles.forEach((tile, index) => {
+            const x = (index % columns) * (tileWidth + GAP);
+            const y = Math.floor(index / columns) * (tileHeight + GAP);
+            this.drawVideo(context, this.getVideo(tile.stream), x, y, tileWidth, tileHeight, tile.fit);
+        });
+
+        if (local) {
+            const video = this.getVideo(local);
+            const aspect = video.videoWidth && video.videoHeight ? video.videoHeight / video.videoWidth : 9 / 16;
+            const height = PIP_WIDTH * aspect;
+            const x = WIDTH - PIP_WIDTH - PIP_MARGIN;
+            context.fillStyle = '#000';
+            context.fillRect(x, PIP_MARGIN, PIP_WIDTH, height);
+            this.drawVideo(context, video, x, PIP_MARGIN, PIP_WIDTH, height, 'cover');
+        }
+    }
+
+    private drawVideo(
+        context: CanvasRenderingContext2D,
+        video: HTMLVideoElement,
+        x: number,
+        y: number,
+        width: number,
+        height: number,
+        fit: RecordingTile['fit']
+    ): void {
+        if (!video.videoWidth || !video.videoHeight) return;
+
+        const scale = fit === 'cover'
+            ? Math.max(width / video.videoWidth, height / video.videoHeight)
+            : Math.min(width / video.videoWidth, height / video.videoHeight);
+        const drawWidth = video.videoWidth * scale;
+        const drawHeight = video.videoHeight * scale;
+
+        context.save();
+        context.beginPath();
+        context.rect(x, y, width, height);
+        context.clip();
+        context.drawImage(video, x + (width - drawWidth) / 2, y + (height - drawHeight) / 2, drawWidth, drawHeight);
+        context.restore();
+    }
+
+    private cleanup(): void {
+        if (this.drawTimer) {
+            clearInterval(this.drawTimer);
+            this.drawTimer = null;
+        }
+        this.recorder?.stream.getTracks().forEach(track => track.stop());
+        this.recorder = null;
+        this.file = Promise.resolve(null);
+        this.chunks = [];
+
+        this.audioSources.forEach(source => source.disconnect());
+        this.audioSources.clear();
+        this.audioContext?.close();
+        this.audioContext = null;
+        this.audioDestination = null;
+
+        this.videos.forEach(video => { video.srcObject = null; });
+        this.videos.clear();
+        this.canvas = null;
+    }
+}
+
+// Each recording replaces the previous one, which was downloaded when it stopped
+async function openRecordingFile(): Promise<RecordingFile | null> {
+    try {
+        const root = await navigator.storage.getDirectory();
+        await root.removeEntry(RECORDINGS_DIRECTORY, { recursive: true }).catch(() => {});
+        const directory = await root.getDirectoryHandle(RECORDINGS_DIRECTORY, { create: true });
+        const handle = await directory.getFileHandle(recordingFileName(), { create: true });
+        return { handle, writable: await handle.createWritable(), error: null };
+    } catch (error) {
+        // Safari only writes files from workers; the recording stays in memory there
+        console.warn('Could not open a file for the recording, keeping it in memory:', error);
+        return null;
+    }
+}
@@ -0,0 +1,151 @@
+// src/lib/ChatChannel.ts - In-call text chat over the peer data channels
+import { ChatMessage, ChatMessageStatus } from '../types';
+import { PeerMessage, PeerPayload, generatePeerMessageId } from './peerProtocol';
+
+interface ChatChannelOptions {
+    /** Sends over one peer's data channel; false if the channel isn't open */
+    send: (peerId: string, message: PeerMessage) => boolean;
+    onMessage: (message: ChatMessage) => void;
+    onStatusChange: (id: string, status: ChatMessageStatus) => void;
+}
+
+interface Delivery {
+    envelope: PeerMessage;
+    waitingFor: Set<string>;
+    acked: number;
+}
+
+const MAX_TEXT_LENGTH = 2000;
+
+export default class ChatChannel {
+    private options: ChatChannelOptions;
+    // Per peer, messages waiting for its data channel to open
+    private outbox = new Map<string, PeerMessage[]>();
+    // Messages no peer has received yet, held for the next one to connect
+    private unaddressed: PeerMessage[] = [];
+    private deliveries = new Map<string, Delivery>();
+    private receivedIds = new Set<string>();
+
+    constructor(options: ChatChannelOptions) {
+        this.options = options;
+    }
+
+    send(text: string, peerIds: string[]): ChatMessage {
+        const message: ChatMessage = {
+            id: generatePeerMessageId(),
+            from: null,
+            text: text.slice(0, MAX_TEXT_LENGTH),
+            timestamp: Date.now(),
+            status: 'queued'
+        };
+        const envelope: PeerMessage = {
+            type: 'chat',
+            payload: { id: message.id, text: message.text, sentAt: message.timestamp }
+        };
+
+        this.deliveries.set(message.id, { envelope, waitingFor: new Set(peerIds), acked: 0 });
+
+        let queued = peerIds.length === 0;
+        if (queued) this.unaddressed.push(envelope);
+        peerIds.forEach(peerId => {
+            if (!this.options.send(peerId, envelope)) {
+                this.enqueue(peerId, envelope);
+                queued = true;
+            }
+        });
+
+        if (!queued) message.status = 'sent';
+        this.options.onMessage(message);
+        return message;
+    }
+
+    receive(peerId: string, { id, text }: PeerPayload<'chat'>): void {
+        // Ack duplicates too, in case our first ack was lost
+        this.options.send(peerId, { type: 'chat-ack', payload: { id } });
+
+        if (this.receivedIds.has(id)) return;
+        this.receivedIds.add(id);
+
+        this.options.onMessage({
+            id,
+            from: peerId,
+            text: text.slice(0, MAX_TEXT_LENGTH),
+            timestamp: Date.now(),
+            status: 'delivered'
+        });
+    }
+
+    acknowledge(peerId: string, { id }: PeerPayload<'chat-ack'>): void {
+        const delivery = this.deliveries.get(id);
+        if (!delivery?.waitingFor.delete(peerId)) return;
+
+        delivery.acked++;
+        this.settle(id, delivery);
+    }
+
+    /** Sends everything that was queued while the peer's channel was down, plus any unaddressed messages */
+    flush(peerId: string): void {
+        this.unaddressed.forEach(message => {
+            if (message.type !== 'chat') return;
+            this.deliveries.get(message.payload.id)?.waitingFor.add(peerId);
+            this.enqueue(peerId, message);
+        });
+        this.unaddressed = [];
+
+        const queued = this.outbox.get(peerId);
+        if (!queued) return;
+
+        const remaining = queued.filter(message => !this.options.send(peerId, message));
+        if (remaining.length > 0) {
+            this.outbox.set(peerId, remaining);
+        } else {
+            this.outbox.delete(peerId);
+        }
+
+        queued
+            .filter(message => !remaining.includes(message) && !this.isQueued(message))
+            .forEach(message => {
+                if (message.type === 'chat' && this.deliveries.has(message.payload.id)) {
+                    this.options.onStatusChange(message.payload.id, 'sent');
+                }
+            });
+    }
+
+    removePeer(peerId: string): void {
+        this.outbox.delete(peerId);
+        this.deliveries.forEach((delivery, id) => {
+            if (delivery.waitingFor.delete(peerId)) this.settle(id, delivery);
+        });
+    }
+
+    reset(): void {
+        this.outbox.clear();
+        this.unaddressed = [];
+        this.deliveries.clear();
+        this.receivedIds.clear();
+    }
+
+    private enqueue(peerId: string, message: PeerMessage): void {
+        const queued = this.outbox.get(peerId) ?? [];
+        queued.push(message);
+        this.outbox.set(peerId, queued);
+    }
+
+    private isQueued(message: PeerMessage): boolean {
+        return [...this.outbox.values()].some(queued => queued.includes(message));
+    }
+
+    // Delivered once everyone still in the call has acked it. If everyone left
+    // before acking, the message goes back to waiting for the next peer.
+    private settle(id: string, delivery: Delivery): void {
+        if (delivery.waitingFor.size > 0) return;
+
+        if (delivery.acked > 0) {
+            this.deliveries.delete(id);
+            this.options.onStatusChange(id, 'delivered');
+        } else {
+            this.unaddressed.push(delivery.envelope);
+            this.options.onStatusChange(id, 'queued');
+        }
+    }
+}
@@ -0,0 +1,385 @@
+// src/lib/FileTransferManager.ts - Chunked peer-to-peer file transfer over the data channel
+//
+// The sender offers a file with its SHA-256; once the receiver accepts, chunks
+// are streamed as long as the channel's send buffer has room. The receiver
+// acks progress every few chunks, and if the connection drops the sender
+// re-offers the same transfer, which the receiver accepts from the chunk it
+// got up to.
+import { FileTransfer } from '../types';
+import { PeerMessage, PeerPayload, generatePeerMessageId } from './peerProtocol';
+
+interface FileTransferManagerOptions {
+    /** Sends over one peer's data channel; false if the channel isn't open */
+    send: (peerId: string, message: PeerMessage) => boolean;
+    getChannel: (peerId: string) => RTCDataChannel | null;
+    onTransferChange: (transfer: FileTransfer) => void;
+}
+
+interface OutgoingTransfer {
+    info: FileTransfer;
+    file: File;
+    sha256: string;
+    nextChunk: number;
+    sending: boolean;
+}
+
+interface IncomingTransfer {
+    info: FileTransfer;
+    chunkSize: number;
+    sha256: string;
+    chunks: ArrayBuffer[];
+}
+
+export const MAX_FILE_SIZE = 200 * 1024 * 1024;
+
+const CHUNK_SIZE = 16 * 1024;
+const ACK_EVERY = 8;
+
+// Stop queueing chunks above the high-water mark until the buffer drains to the low one
+const BUFFER_HIGH_WATER = 1024 * 1024;
+const BUFFER_LOW_WATER = 256 * 1024;
+
+const ACTIVE_STATUSES: FileTransfer['status'][] = ['offered', 'pending', 'transferring', 'paused'];
+
+export default class FileTransferManager {
+    private options: FileTransferManagerOptions;
+    private outgoing = new Map<string, OutgoingTransfer>();
+    private incoming = new Map<string, IncomingTransfer>();
+
+    constructor(options: FileTransferManagerOptions) {
+        this.options = options;
+    }
+
+    /** Offers the file to every peer; each peer gets its own transfer */
+    async offer(file: File, peerIds: string[]): Promise<void> {
+        if (file.size > MAX_FILE_SIZE) {
+            throw new Error(`Files larger than ${MAX_FILE_SIZE / (1024 * 1024)} MB can't be sent`);
+        }
+
+        const sha256 = await hashBuffer(await file.arrayBuffer());
+
+        peerIds.forEach(peerId => {
+            const transfer: OutgoingTransfer = {
+                info: {
+                    id: generatePeerMessageId(),
+                    peerId,
+                    direction: 'outgoing',
+                    name: file.name,
+                    size: file.size,
+                    mimeType: file.type || 'application/octet-stream',
+                    status: 'pending',
+                    bytesTransferred: 0
+                },
+                file,
+                sha256,
+                nextChunk: 0,
+                sending: false
+            };
+
+            this.outgoing.set(transfer.info.id, transfer);
+            this.sendOffer(transfer);
+        });
+    }
+
+    accept(id: string): void {
+        const transfer = this.incoming.get(id);
+        if (!transfer || transfer.info.status !== 'offered') return;
+
+        this.options.send(transfer.info.peerId, { type: 'file-accept', payload: { id, fromChunk: 0 } });
+        this.update(transfer.info, { status: 'transferring' });
+    }
+
+    decline(id: string): void {
+        const transfer = this.incoming.get(id);
+        if (!transfer || transfer.info.status !== 'offered') return;
+
+        this.options.send(transfer.info.peerId, { type: 'file-decline', payload: { id } });
+        this.incoming.delete(id);
+        this.update(transfer.info, { status: 'declined' });
+    }
+
+    cancel(id: string): void {
+        const transfer = this.outgoing.get(id) ?? this.incoming.get(id);
+        if (!transfer || !ACTIVE_STATUSES.includes(transfer.info.status)) return;
+
+        this.options.send(transfer.info.peerId, { type: 'file-cancel', payload: { id } });
+        this.finish(id, { status: 'cancelled' });
+    }
+
+    handleMessage(peerId: string, message: PeerMessage): void {
+        switch (message.type) {
+            case 'file-offer':
+                this.handleOffer(peerId, message.payload);
+                break;
+
+            case 'file-accept':
+                this.handleAccept(peerId, message.payload);
+                break;
+
+            case 'file-chunk':
+                this.handleChunk(peerId, message.payload);
+                break;
+
+            case 'file-ack':
+                this.handleAck(peerId, message.payload);
+                break;
+
+            case 'file-complete':
+                this.handleComplete(peerId, message.payload);
+                break;
+
+            case 'file-decline':
+                if (this.outgoing.get(message.payload.id)?.info.peerId === peerId) {
+                    this.finish(message.payload.id, { status: 'declined' });
+                }
+                break;
+
+            case 'file-cancel':
+                if ((this.outgoing.get(message.payload.id) ?? this.incoming.get(message.payload.id))?.info.peerId === peerId) {
+                    this.finish(message.payload.id, { status: 'cancelled' });
+                }
+                break;
+        }
+    }
+
+    /** The peer's connection went away; keep its transfers so they can resume */
+    pausePeer(peerId: string): void {
+        [...this.outgoing.values(), ...this.incoming.values()].forEach(transfer => {
+            if (transfer.info.peerId === peerId && transfer.info.status === 'transferring') {
+                this.update(transfer.info, { status: 'paused' });
+            }
+        });
+    }
+
+    /** The peer is gone for good: its unfinished transfers fail, and their chunks are dropped */
+    removePeer(peerId: string): void {
+        [...this.outgoing.values(), ...this.incoming.values()]
+            .filter(transfer => transfer.info.peerId === peerId)
+            .forEach(transfer => this.finish(transfer.info.id, { status: 'failed' }));
+    }
+
+    /** The peer's data channel is open (again): re-offer anything that was interrupted */
+    resumePeer(peerId: string): void {
+        this.outgoing.forEach(transfer => {
+            const { status } = transfer.info;
+            if (transfer.info.peerId === peerId && (status === 'paused' || status === 'pending')) {
+                this.sendOffer(transfer);
+            }
+        });
+    }
+
+    /** Cancels everything; for leaving the call, not for losing the connection */
+    reset(): void {
+        this.outgoing.forEach(transfer => this.update(transfer.info, { status: 'cancelled' }));
+        this.incoming.forEach(transfer => this.update(transfer.info, { status: 'cancelled' }));
+        this.outgoing.clear();
+        this.incoming.clear();
+    }
+
+    private sendOffer({ info, sha256 }: OutgoingTransfer): void {
+        this.options.send(info.peerId, {
+            type: 'file-offer',
+            payload: {
+                id: info.id,
+                name: info.name,
+                size: info.size,
+                mimeType: info.mimeType,
+                chunkSize: CHUNK_SIZE,
+                sha256
+            }
+        });
+        this.update(info, {});
+    }
+
+    private handleOffer(peerId: string, offer: PeerPayload<'file-offer'>): void {
+        const existing = this.incoming.get(offer.id);
+
+        // A re-offer after reconnecting: pick up where we left off
+        if (existing) {
+            if (existing.info.peerId !== peerId) return;
+            if (existing.info.status === 'paused' || existing.info.status === 'transferring') {
+                this.options.send(peerId, {
+                    type: 'file-accept',
+                    payload: { id: offer.id, fromChunk: existing.chunks.length }
+                });
+                this.update(existing.info, { status: 'transferring' });
+            }
+            return;
+        }
+
+        if (offer.size > MAX_FILE_SIZE || offer.chunkSize <= 0) {
+            this.options.send(peerId, { type: 'file-decline', payload: { id: offer.id } });
+            return;
+        }
+
+        const transfer: IncomingTransfer = {
+            info: {
+                id: offer.id,
+                peerId,
+                direction: 'incoming',
+                name: offer.name,
+                size: offer.size,
+                mimeType: offer.mimeType,
+                status: 'offered',
+                bytesTransferred: 0
+            },
+            chunkSize: offer.chunkSize,
+            sha256: offer.sha256,
+            chunks: []
+        };
+
+        this.incoming.set(offer.id, transfer);
+        this.update(transfer.info, {});
+    }
+
+    private handleAccept(peerId: string, { id, fromChunk }: PeerPayload<'file-accept'>): void {
+        const transfer = this.outgoing.get(id);
+        if (!transfer || transfer.info.peerId !== peerId) return;
+        if (!ACTIVE_STATUSES.includes(transfer.info.status)) return;
+
+        transfer.nextChunk = Math.max(0, Math.min(fromChunk, chunkCount(transfer.file.size, CHUNK_SIZE)));
+        this.update(transfer.info, {
+            status: 'transferring',
+            bytesTransferred: Math.min(transfer.nextChunk * CHUNK_SIZE, transfer.file.size)
+        });
+        this.pump(transfer);
+    }
+
+    // Streams chunks while the channel's buffer has room, waiting for it to drain otherwise
+    private async pump(transfer: OutgoingTransfer): Promise<void> {
+        if (transfer.sending) return;
+        transfer.sending = true;
+
+        const { info, file } = transfer;
+        const totalChunks = chunkCount(file.size, CHUNK_SIZE);
+
+        try {
+            while (transfer.nextChunk < totalChunks && info.status === 'transferring') {
+                const channel = this.options.getChannel(info.peerId);
+                if (!channel || channel.readyState !== 'open') {
+                    this.update(info, { status: 'paused' });
+                    break;
+                }
+
+                if (channel.bufferedAmount > BUFFER_HIGH_WATER) {
+                    await waitForDrain(channel);
+                    continue;
+                }
+
+                const index = transfer.nextChunk;
+                const start = index * CHUNK_SIZE;
+                const data = encodeBase64(await file.slice(start, start + CHUNK_SIZE).arrayBuffer());
+
+                // The status may have changed while we were reading the file
+                if (info.status !== 'transferring') break;
+
+                if (!this.options.send(info.peerId, { type: 'file-chunk', payload: { id: info.id, index, data } })) {
+                    this.update(info, { status: 'paused' });
+                    break;
+                }
+                transfer.nextChunk++;
+            }
+        } finally {
+            transfer.sending = false;
+        }
+    }
+
+    private async handleChunk(peerId: string, { id, index, data }: PeerPayload<'file-chunk'>): Promise<void> {
+        const transfer = this.incoming.get(id);
+        if (!transfer || transfer.info.peerId !== peerId || transfer.info.status !== 'transferring') return;
+
+        // The channel is ordered, so anything else is a duplicate from before a resume
+        if (index !== transfer.chunks.length) return;
+
+        transfer.chunks.push(decodeBase64(data));
+        const received = transfer.chunks.length;
+        const isLast = received >= chunkCount(transfer.info.size, transfer.chunkSize);
+
+        if (received % ACK_EVERY === 0 || isLast) {
+            this.options.send(peerId, { type: 'file-ack', payload: { id, received } });
+            this.update(transfer.info, {
+                bytesTransferred: Math.min(received * transfer.chunkSize, transfer.info.size)
+            });
+        }
+
+        if (!isLast) return;
+
+        const blob = new Blob(transfer.chunks, { type: transfer.info.mimeType });
+        const verified = await hashBuffer(await blob.arrayBuffer()) === transfer.sha256;
+        this.options.send(peerId, { type: 'file-complete', payload: { id, verified } });
+
+        if (verified) {
+            this.finish(id, { status: 'completed', bytesTransferred: transfer.info.size, url: URL.createObjectURL(blob) });
+        } else {
+            console.warn(`Checksum mismatch for ${transfer.info.name}`);
+            this.finish(id, { status: 'failed' });
+        }
+    }
+
+    private handleAck(peerId: string, { id, received }: PeerPayload<'file-ack'>): void {
+        const transfer = this.outgoing.get(id);
+        if (!transfer || transfer.info.peerId !== peerId) return;
+
+        this.update(transfer.info, {
+            bytesTransferred: Math.min(received * CHUNK_SIZE, transfer.file.size)
+        });
+    }
+
+    private handleComplete(peerId: string, { id, verified }: PeerPayload<'file-complete'>): void {
+        const transfer = this.outgoing.get(id);
+        if (!transfer || transfer.info.peerId !== peerId) return;
+
+        this.finish(id, verified
+            ? { status: 'completed', bytesTransferred: transfer.file.size }
+            : { status: 'failed' });
+    }
+
+    private finish(id: string, changes: Partial<FileTransfer>): void {
+        const transfer = this.outgoing.get(id) ?? this.incoming.get(id);
+        if (!transfer) return;
+
+        this.outgoing.delete(id);
+        this.incoming.delete(id);
+        this.update(transfer.info, changes);
+    }
+
+    private update(info: FileTransfer, changes: Partial<FileTransfer>): void {
+        Object.assign(info, changes);
+        this.options.onTransferChange({ ...info });
+    }
+}
+
+function chunkCount(size: number, chunkSize: number): number {
+    return Math.max(1, Math.ceil(size / chunkSize));
+}
+
+function waitForDrain(channel: RTCDataChannel): Promise<void> {
+    return new Promise(resolve => {
+        const done = () => {
+            channel.removeEventListener('bufferedamountlow', done);
+            channel.removeEventListener('close', done);
+            resolve();
+        };
+        channel.bufferedAmountLowThreshold = BUFFER_LOW_WATER;
+        channel.addEventListener('bufferedamountlow', done);
+        channel.addEventListener('close', done);
+    });
+}
+
+async function hashBuffer(buffer: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function encodeBase64(buffer: ArrayBuffer): string {
+    return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+}
+
+function decodeBase64(data: string): ArrayBuffer {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.buffer;
+}
@@ -0,0 +1,239 @@
+// src/lib/QualityMonitor.ts - Scores the quality of one peer link
+//
+// Audio is rated with a simplified ITU-T G.107 E-model (R-factor mapped to
+// MOS), video with a 1-5 score from resolution, frame rate and freezes. Both
+// directions count: our own stats describe what we receive, the partner's
+// relayed reports describe what they receive from us. Separately, each end
+// is rated on its own so the UI can tell whose network is struggling.
+import { CallQuality, CallStats, QualityScore } from '../types';
+
+// Equipment impairment (Ie) and packet-loss robustness (Bpl) per codec.
+// G.711 values are from G.113 Appendix I (with PLC); G.113 has no Opus entry,
+// so it gets the same base with extra robustness for its FEC and PLC.
+const CODEC_IMPAIRMENTS: Record<string, { ie: number; bpl: number }> = {
+    'audio/pcmu': { ie: 0, bpl: 25.1 },
+    'audio/pcma': { ie: 0, bpl: 25.1 },
+    'audio/opus': { ie: 0, bpl: 30 }
+};
+const DEFAULT_IMPAIRMENT = CODEC_IMPAIRMENTS['audio/opus'];
+
+// Packetization plus jitter buffer and codec delay on top of the network (ms)
+const CODEC_DELAY = 20;
+
+// Lower bounds of each level, in MOS
+const QUALITY_THRESHOLDS: [CallQuality, number][] = [
+    ['excellent', 4.0],
+    ['good', 3.6],
+    ['fair', 3.1],
+    ['poor', 0]
+];
+// A level only changes once the score is this far past the boundary...
+const HYSTERESIS = 0.1;
+// ...for this many samples in a row
+const STABLE_SAMPLES = 3;
+
+// How much the newest sample moves the smoothed score
+const SMOOTHING = 0.4;
+// Partner reports older than this no longer describe the link (ms)
+const REMOTE_REPORT_MAX_AGE = 10000;
+
+// How one side's sending looks at each level, worst first. The bandwidth
+// bounds are low on purpose: audio-only calls never probe for much more.
+const SIDE_THRESHOLDS: [CallQuality, { loss: number; jitter: number; bandwidth: number }][] = [
+    ['poor', { loss: 10, jitter: 100, bandwidth: 100000 }],
+    ['fair', { loss: 3, jitter: 50, bandwidth: 250000 }],
+    ['good', { loss: 1, jitter: 30, bandwidth: 0 }]
+];
+
+interface SendingSide {
+    /** Percent of packets lost on the way to the other side */
+    loss: number;
+    /** ms, as measured by the receiving side */
+    jitter: number;
+    /** The sender's own bandwidth estimate in bps, 0 when unknown */
+    bandwidth: number;
+}
+
+export function estimateMos(stats: CallStats): number {
+    const { ie, bpl } = CODEC_IMPAIRMENTS[stats.audio.codec.toLowerCase()] ?? DEFAULT_IMPAIRMENT;
+
+    // One-way delay, with the jitter buffer assumed to hold about two jitters
+    const delay = stats.connection.roundTripTime / 2 + stats.audio.jitter * 2 + CODEC_DELAY;
+    const delayImpairment = 0.024 * delay + (delay > 177.3 ? 0.11 * (delay - 177.3) : 0);
+
+    const loss = stats.audio.packetLoss;
+    const equipmentImpairment = ie + (95 - ie) * (loss / (loss + bpl));
+
+    return rToMos(93.2 - delayImpairment - equipmentImpairment);
+}
+
+// null when no video is flowing, so a camera that is off doesn't count as bad video
+export function estimateVideoScore(stats: CallStats): number | null {
+    const { resolution, frameRate, frozenPercent, bitrate } = stats.video;
+    if (bitrate === 0 || resolution.height === 0) return null;
+
+    // 90p scores 1, 720p and up 5, on a log scale
+    const resolutionScore = 1 + 4 * Math.min(1, Math.max(0, Math.log2(resolution.height / 90) / 3));
+    const smoothness = Math.min(1, Math.sqrt(frameRate / 24));
+    const fluidity = 1 - frozenPercent / 100;
+
+    return 1 + (resolutionScore - 1) * smoothness * fluidity;
+}
+
+function rToMos(r: number): number {
+    if (r <= 0) return 1;
+    if (r >= 100) return 4.5;
+    return 1 + 0.035 * r + r * (r - 60) * (100 - r) * 7e-6;
+}
+
+export function rateSendingSide({ loss, jitter, bandwidth }: SendingSide): CallQuality {
+    const level = SIDE_THRESHOLDS.find(([, limit]) => (
+        loss >= limit.loss || jitter >= limit.jitter || (bandwidth > 0 && bandwidth < limit.bandwidth)
+    ));
+    return level ? level[0] : 'excellent';
+}
+
+// Our side from how the partner receives us; the partner's report is the
+// direct measurement, RTCP receiver reports stand in until one arrives
+function rateLocalSide(stats: CallStats, remote: CallStats | null): CallQuality {
+    if (stats.audio.outbound.bitrate + stats.video.outbound.bitrate === 0) return 'unknown';
+    return rateSendingSide({
+        loss: remote
+            ? Math.max(remote.audio.packetLoss, remote.video.packetLoss)
+            : Math.max(stats.audio.outbound.packetLoss, stats.video.outbound.packetLoss),
+        jitter: remote ? remote.audio.jitter : stats.audio.outbound.jitter,
+        bandwidth: stats.connection.availableOutgoingBitrate
+    });
+}
+
+// Their side from how we receive them, plus the estimate only they can make
+function rateRemoteSide(stats: CallStats, remote: CallStats | null): CallQuality {
+    if (stats.audio.bitrate + stats.video.bitrate === 0) return 'unknown';
+    return rateSendingSide({
+        loss: Math.max(stats.audio.packetLoss, stats.video.packetLoss),
+        jitter: stats.audio.jitter,
+        bandwidth: remote?.connection.availableOutgoingBitrate ?? 0
+    });
+}
+
+function levelFor(score: number): CallQuality {
+    return QUALITY_THRESHOLDS.find(([, threshold]) => score >= threshold)![0];
+}
+
+function thresholdOf(quality: CallQuality): number {
+    return QUALITY_THRESHOLDS.find(([level]) => level === quality)?.[1] ?? 0;
+}
+
+export default class QualityMonitor {
+    private mos: number | null = null;
+    private videoScore: number | null = null;
+    private quality: CallQuality = 'unknown';
+    private pending: { quality: CallQuality; samples: number } | null = null;
+    private remote: { stats: CallStats; receivedAt: number } | null = null;
+    private localSide = new LevelFilter();
+    private remoteSide = new LevelFilter();
+    private onScoreChange: (score: QualityScore) => void;
+
+    constructor(onScoreChange: (score: QualityScore) => void) {
+        this.onScoreChange = onScoreChange;
+    }
+
+    // Our view of the link: what we receive
+    updateStats(stats: CallStats): void {
+        const remote = this.remote && Date.now() - this.remote.receivedAt < REMOTE_REPORT_MAX_AGE
+            ? this.remote.stats
+            : null;
+
+        // The worse direction is what the call feels like
+        const mos = Math.min(estimateMos(stats), remote ? estimateMos(remote) : Infinity);
+        const videoScores = [estimateVideoScore(stats), remote && estimateVideoScore(remote)]
+            .filter((score): score is number => score !== null);
+
+        this.mos = smooth(this.mos, mos);
+        this.videoScore = videoScores.length > 0 ? smooth(this.videoScore, Math.min(...videoScores)) : null;
+
+        const score = Math.min(this.mos, this.videoScore ?? Infinity);
+        this.quality = this.nextQuality(score);
+
+        this.onScoreChange({
+            mos: round(this.mos),
+            videoScore: this.videoScore === null ? null : round(this.videoScore),
+            quality: this.quality,
+            link: {
+                local: this.localSide.next(rateLocalSide(stats, remote)),
+                remote: this.remoteSide.next(rateRemoteSide(stats, remote))
+            }
+        });
+    }
+
+    // The partner's view of the link: what they receive from us
+    updateRemoteStats(stats: CallStats): void {
+        this.remote = { stats, receivedAt: Date.now() };
+    }
+
+    reset(): void {
+        this.mos = null;
+        this.videoScore = null;
+        this.quality = 'unknown';
+        this.pending = null;
+        this.remote = null;
+        this.localSide = new LevelFilter();
+        this.remoteSide = new LevelFilter();
+    }
+
+    private nextQuality(score: number): CallQuality {
+        const candidate = levelFor(score);
+        if (this.quality === 'unknown') return candidate;
+        if (candidate === this.quality) {
+            this.pending = null;
+            return this.quality;
+        }
+
+        // Must clear the boundary between the two levels by the margin
+        const rising = thresholdOf(candidate) > thresholdOf(this.quality);
+        const boundary = rising ? thresholdOf(candidate) : thresholdOf(this.quality);
+        const clear = rising ? score >= boundary + HYSTERESIS : score < boundary - HYSTERESIS;
+        if (!clear) {
+            this.pending = null;
+            return this.quality;
+        }
+
+        this.pending = this.pending?.quality === candidate
+            ? { quality: candidate, samples: this.pending.samples + 1 }
+            : { quality: candidate, samples: 1 };
+        if (this.pending.samples < STABLE_SAMPLES) return this.quality;
+
+        this.pending = null;
+        return candidate;
+    }
+}
+
+// Holds a level until a different one has been seen for STABLE_SAMPLES in a row
+class LevelFilter {
+    private level: CallQuality = 'unknown';
+    private pending: { quality: CallQuality; samples: number } | null = null;
+
+    next(candidate: CallQuality): CallQuality {
+        if (candidate === this.level) {
+            this.pending = null;
+        } else if (this.level === 'unknown') {
+            this.level = candidate;
+        } else {
+            const samples = this.pending?.quality === candidate ? this.pending.samples + 1 : 1;
+            this.pending = { quality: candidate, samples };
+            if (samples >= STABLE_SAMPLES) {
+                this.level = candidate;
+                this.pending = null;
+            }
+        }
+        return this.level;
+    }
+}
+
+function smooth(previous: number | null, value: number): number {
+    return previous === null ? value : previous + SMOOTHING * (value - previous);
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
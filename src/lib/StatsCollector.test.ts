@@ -0,0 +1,138 @@
+// src/lib/StatsCollector.test.ts - StatsCollector against recorded getStats() snapshots
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import StatsCollector from './StatsCollector';
+
+type Fixture = 'first' | 'second' | 'ssrcReset' | 'afterReset';
+
+const fixtures: Record<Fixture, RTCStats[]> = JSON.parse(
+    readFileSync(new URL('./fixtures/statsReports.json', import.meta.url), 'utf8')
+);
+
+// RTCStatsReport is a read-only map keyed by stats id
+function report(name: Fixture): RTCStatsReport {
+    return new Map(fixtures[name].map(stat => [stat.id, stat])) as unknown as RTCStatsReport;
+}
+
+describe('StatsCollector', () => {
+    let collector: StatsCollector;
+
+    beforeEach(() => {
+        collector = new StatsCollector();
+    });
+
+    it('reports no rates or loss before there is a previous sample', () => {
+        const stats = collector.collect(report('first'));
+
+        assert.equal(stats.audio.bitrate, 0);
+        assert.equal(stats.audio.packetLoss, 0);
+        assert.equal(stats.video.bitrate, 0);
+        assert.equal(stats.video.packetLoss, 0);
+        assert.equal(stats.audio.outbound.bitrate, 0);
+    });
+
+    it('computes received bitrates per SSRC, separately for audio and video', () => {
+        collector.collect(report('first'));
+        const stats = collector.collect(report('second'));
+
+        // 4000 and 125000 bytes over one second
+        assert.equal(stats.audio.bitrate, 32000);
+        assert.equal(stats.video.bitrate, 1000000);
+    });
+
+    it('computes packet loss over the interval rather than from cumulative packetsLost', () => {
+        collector.collect(report('first'));
+        const stats = collector.collect(report('second'));
+
+        // Audio lost nothing new (the cumulative 10 would read as ~1.8%)
+        assert.equal(stats.audio.packetLoss, 0);
+        // Video lost 10 of 100 packets in the interval (cumulative would be ~5.2%)
+        assert.equal(stats.video.packetLoss, 10);
+    });
+
+    it('converts jitter and round-trip times from seconds to milliseconds', () => {
+        collector.collect(report('first'));
+        const stats = collector.collect(report('second'));
+
+        assert.equal(stats.audio.jitter, 14);
+        assert.equal(stats.connection.roundTripTime, 44);
+        assert.equal(stats.audio.outbound.jitter, 9);
+        assert.equal(stats.audio.outbound.roundTripTime, 46);
+        assert.equal(stats.video.outbound.jitter, 22.1);
+        assert.equal(stats.video.outbound.roundTripTime, 48.8);
+    });
+
+    it('resolves codec names through codecId', () => {
+        const stats = collector.collect(report('first'));
+
+        assert.equal(stats.audio.codec, 'audio/opus');
+        assert.equal(stats.video.codec, 'video/VP8');
+        assert.equal(stats.audio.outbound.codec, 'audio/opus');
+        assert.equal(stats.video.outbound.codec, 'video/VP9');
+    });
+
+    it('reports outbound rates and what the partner says about our streams', () => {
+        collector.collect(report('first'));
+        const { audio, video } = collector.collect(report('second'));
+
+        assert.equal(audio.outbound.bitrate, 32000);
+        // fractionLost from remote-inbound-rtp is already per interval
+        assert.equal(audio.outbound.packetLoss, 1);
+        assert.equal(video.outbound.bitrate, 2000000);
+        assert.equal(video.outbound.packetLoss, 4);
+        assert.equal(video.outbound.frameRate, 29);
+        assert.deepEqual(video.outbound.resolution, { width: 640, height: 360 });
+        assert.deepEqual(video.outbound.encodings, [{
+            id: '4444',
+            scalabilityMode: 'L1T3',
+            bitrate: 2000000,
+            frameRate: 29,
+            resolution: { width: 640, height: 360 },
+            qualityLimitation: 'bandwidth'
+        }]);
+    });
+
+    it('describes inbound video and the selected candidate pair', () => {
+        collector.collect(report('first'));
+        const { video, connection } = collector.collect(report('second'));
+
+        // 0.25 s frozen in a one-second interval
+        assert.equal(video.frozenPercent, 25);
+        assert.equal(video.frameRate, 24);
+        assert.deepEqual(video.resolution, { width: 1280, height: 720 });
+        assert.deepEqual(connection, {
+            roundTripTime: 44,
+            availableOutgoingBitrate: 1800000,
+            localCandidateType: 'srflx',
+            remoteCandidateType: 'host',
+            protocol: 'udp'
+        });
+    });
+
+    it('starts over when an SSRC is replaced or its counters reset', () => {
+        collector.collect(report('first'));
+        collector.collect(report('second'));
+
+        // A new audio SSRC has no baseline; the reused video SSRC went backwards
+        const reset = collector.collect(report('ssrcReset'));
+        assert.equal(reset.audio.bitrate, 0);
+        assert.equal(reset.video.bitrate, 0);
+        assert.equal(reset.video.packetLoss, 0);
+
+        // Both measure from the reset sample onwards
+        const next = collector.collect(report('afterReset'));
+        assert.equal(next.audio.bitrate, 32000);
+        assert.equal(next.video.bitrate, 1000000);
+        assert.equal(next.video.packetLoss, 5);
+    });
+
+    it('forgets every baseline on reset()', () => {
+        collector.collect(report('first'));
+        collector.reset();
+
+        const stats = collector.collect(report('second'));
+        assert.equal(stats.audio.bitrate, 0);
+        assert.equal(stats.video.packetLoss, 0);
+    });
+});
@@ -0,0 +1,241 @@
+// src/lib/StatsCollector.ts - Turns raw RTCStatsReports into CallStats
+//
+// getStats() only exposes running totals, so rates and loss are computed from
+// the difference to the previous sample of the same RTP stream (one per SSRC).
+// Every value leaves here in the units documented on CallStats.
+import { AudioStats, CallStats, CodecStats, ConnectionStats, EncodingStats, IceCandidateStats, OutboundStats, OutboundVideoStats, RemoteInboundRtpStats, VideoStats } from '../types';
+
+type MediaKind = 'audio' | 'video';
+
+interface Counters {
+    timestamp: number;
+    bytes: number;
+    packetsLost: number;
+    packetsReceived: number;
+    /** Seconds */
+    freezeDuration: number;
+}
+
+// What happened on one stream since its previous sample
+interface RateSample {
+    bitrate: number;
+    packetsLost: number;
+    packetsReceived: number;
+    frozenPercent: number;
+}
+
+// One getStats() result, sorted by what we need from it
+interface Snapshot {
+    report: RTCStatsReport;
+    inbound: RTCInboundRtpStreamStats[];
+    outbound: RTCOutboundRtpStreamStats[];
+    remoteInbound: RemoteInboundRtpStats[];
+    /** Keyed by stats id */
+    rates: Map<string, RateSample>;
+}
+
+export default class StatsCollector {
+    // Last counters per RTP stream report id, which is unique per SSRC
+    private previous = new Map<string, Counters>();
+
+    collect(report: RTCStatsReport): CallStats {
+        const snapshot: Snapshot = { report, inbound: [], outbound: [], remoteInbound: [], rates: new Map() };
+
+        report.forEach((stat: RTCStats) => {
+            if (stat.type === 'inbound-rtp') {
+                const inbound = stat as RTCInboundRtpStreamStats;
+                snapshot.inbound.push(inbound);
+                snapshot.rates.set(stat.id, this.sample(stat.id, {
+                    timestamp: stat.timestamp,
+                    bytes: inbound.bytesReceived ?? 0,
+                    packetsLost: inbound.packetsLost ?? 0,
+                    packetsReceived: inbound.packetsReceived ?? 0,
+                    freezeDuration: inbound.totalFreezesDuration ?? 0
+                }));
+            } else if (stat.type === 'outbound-rtp') {
+                const outbound = stat as RTCOutboundRtpStreamStats;
+                snapshot.outbound.push(outbound);
+                snapshot.rates.set(stat.id, this.sample(stat.id, {
+                    timestamp: stat.timestamp,
+                    bytes: outbound.bytesSent ?? 0,
+                    packetsLost: 0,
+                    packetsReceived: 0,
+                    freezeDuration: 0
+                }));
+            } else if (stat.type === 'remote-inbound-rtp') {
+                snapshot.remoteInbound.push(stat as RemoteInboundRtpStats);
+            }
+        });
+
+        // Streams that went away (ended tracks, renegotiation) don't come back under the same id
+        for (const id of this.previous.keys()) {
+            if (!snapshot.rates.has(id)) this.previous.delete(id);
+        }
+
+        return {
+            audio: this.audioStats(snapshot),
+            video: this.videoStats(snapshot),
+            connection: this.connectionStats(report)
+        };
+    }
+
+    reset(): void {
+        this.previous.clear();
+    }
+
+    private sample(id: string, current: Counters): RateSample {
+        const last = this.previous.get(id);
+        this.previous.set(id, current);
+
+        const seconds = last ? (current.timestamp - last.timestamp) / 1000 : 0;
+        // No baseline yet, or counters went backwards because the SSRC was reused
+        if (!last || seconds <= 0 || current.bytes < last.bytes) {
+            return { bitrate: 0, packetsLost: 0, packetsReceived: 0, frozenPercent: 0 };
+        }
+
+        const frozen = Math.max(0, current.freezeDuration - last.freezeDuration);
+        return {
+            bitrate: Math.round(((current.bytes - last.bytes) * 8) / seconds),
+            packetsLost: Math.max(0, current.packetsLost - last.packetsLost),
+            packetsReceived: Math.max(0, current.packetsReceived - last.packetsReceived),
+            frozenPercent: Math.min(100, (frozen / seconds) * 100)
+        };
+    }
+
+    private audioStats(snapshot: Snapshot): AudioStats {
+        const streams = ofKind(snapshot.inbound, 'audio');
+        const main = busiest(streams, stat => stat.bytesReceived);
+
+        return {
+            ...combine(streams, snapshot.rates),
+            jitter: Math.max(0, ...streams.map(stat => toMs(stat.jitter))),
+            codec: codecName(snapshot.report, main?.codecId),
+            outbound: this.outboundStats(snapshot, 'audio')
+        };
+    }
+
+    private videoStats(snapshot: Snapshot): VideoStats {
+        const streams = ofKind(snapshot.inbound, 'video');
+        // With a separate screen share there are two; the busiest one describes the call best
+        const main = busiest(streams, stat => stat.bytesReceived);
+
+        return {
+            ...combine(streams, snapshot.rates),
+            frozenPercent: main ? snapshot.rates.get(main.id)?.frozenPercent ?? 0 : 0,
+            frameRate: main?.framesPerSecond ?? 0,
+            resolution: { width: main?.frameWidth ?? 0, height: main?.frameHeight ?? 0 },
+            codec: codecName(snapshot.report, main?.codecId),
+            outbound: this.outboundVideoStats(snapshot)
+        };
+    }
+
+    private outboundStats(snapshot: Snapshot, kind: MediaKind): OutboundStats {
+        const streams = ofKind(snapshot.outbound, kind);
+        const reports = ofKind(snapshot.remoteInbound, kind);
+        const main = busiest(streams, stat => stat.bytesSent);
+        const roundTripTimes = reports.map(stat => toMs(stat.roundTripTime)).filter(rtt => rtt > 0);
+
+        return {
+            bitrate: streams.reduce((sum, stat) => sum + (snapshot.rates.get(stat.id)?.bitrate ?? 0), 0),
+            // fractionLost already covers just the interval since the partner's previous report
+            packetLoss: Math.max(0, ...reports.map(stat => (stat.fractionLost ?? 0) * 100)),
+            jitter: Math.max(0, ...reports.map(stat => toMs(stat.jitter))),
+            roundTripTime: roundTripTimes.length > 0 ? Math.min(...roundTripTimes) : 0,
+            codec: codecName(snapshot.report, main?.codecId)
+        };
+    }
+
+    private outboundVideoStats(snapshot: Snapshot): OutboundVideoStats {
+        const streams = ofKind(snapshot.outbound, 'video');
+        // Should a sender carry several encodings of one track, the largest is what we'd show
+        const largest = busiest(streams, stat => (stat.frameWidth ?? 0) * (stat.frameHeight ?? 0));
+
+        return {
+            ...this.outboundStats(snapshot, 'video'),
+            frameRate: largest?.framesPerSecond ?? 0,
+            resolution: { width: largest?.frameWidth ?? 0, height: largest?.frameHeight ?? 0 },
+            encodings: streams
+                .map((stat): EncodingStats => ({
+                    id: stat.rid ?? String(stat.ssrc),
+                    scalabilityMode: stat.scalabilityMode ?? null,
+                    bitrate: snapshot.rates.get(stat.id)?.bitrate ?? 0,
+                    frameRate: stat.framesPerSecond ?? 0,
+                    resolution: { width: stat.frameWidth ?? 0, height: stat.frameHeight ?? 0 },
+                    qualityLimitation: stat.qualityLimitationReason ?? 'none'
+                }))
+                .sort((a, b) => a.resolution.height - b.resolution.height)
+        };
+    }
+
+    private connectionStats(report: RTCStatsReport): ConnectionStats {
+        const pair = selectedCandidatePair(report);
+        const local = pair && report.get(pair.localCandidateId) as IceCandidateStats | undefined;
+        const remote = pair && report.get(pair.remoteCandidateId) as IceCandidateStats | undefined;
+
+        return {
+            roundTripTime: toMs(pair?.currentRoundTripTime),
+            availableOutgoingBitrate: Math.round(pair?.availableOutgoingBitrate ?? 0),
+            localCandidateType: local?.candidateType ?? 'unknown',
+            remoteCandidateType: remote?.candidateType ?? 'unknown',
+            protocol: local?.protocol ?? 'unknown'
+        };
+    }
+}
+
+// codecId points at a separate 'codec' report that carries the MIME type
+function codecName(report: RTCStatsReport, codecId: string | undefined): string {
+    return (codecId && (report.get(codecId) as CodecStats | undefined)?.mimeType) || 'unknown';
+}
+
+function selectedCandidatePair(report: RTCStatsReport): RTCIceCandidatePairStats | undefined {
+    let transport: RTCTransportStats | undefined;
+    let nominated: RTCIceCandidatePairStats | undefined;
+
+    report.forEach((stat: RTCStats) => {
+        if (stat.type === 'transport' && !transport) {
+            transport = stat as RTCTransportStats;
+        } else if (stat.type === 'candidate-pair') {
+            const pair = stat as RTCIceCandidatePairStats;
+            if (pair.nominated && pair.state === 'succeeded') nominated = pair;
+        }
+    });
+
+    // Firefox has no transport report, so fall back to the nominated pair
+    const selectedId = transport?.selectedCandidatePairId;
+    return (selectedId && report.get(selectedId) as RTCIceCandidatePairStats | undefined) || nominated;
+}
+
+function ofKind<T extends { kind: string }>(stats: T[], kind: MediaKind): T[] {
+    return stats.filter(stat => stat.kind === kind);
+}
+
+function busiest<T>(stats: T[], size: (stat: T) => number | undefined): T | undefined {
+    return stats.reduce<T | undefined>((best, stat) => (
+        !best || (size(stat) ?? 0) > (size(best) ?? 0) ? stat : best
+    ), undefined);
+}
+
+// Received bitrate and interval loss across all streams of one kind
+function combine(
+    streams: RTCInboundRtpStreamStats[],
+    rates: Map<string, RateSample>
+): { bitrate: number; packetLoss: number } {
+    let bitrate = 0;
+    let lost = 0;
+    let received = 0;
+    for (const stat of streams) {
+        const sample = rates.get(stat.id);
+        if (!sample) continue;
+        bitrate += sample.bitrate;
+        lost += sample.packetsLost;
+        received += sample.packetsReceived;
+    }
+
+    const packetLoss = lost + received > 0 ? (lost / (lost + received)) * 100 : 0;
+    return { bitrate, packetLoss: Math.round(packetLoss * 100) / 100 };
+}
+
+// WebRTC reports times in seconds
+function toMs(seconds: number | undefined): number {
+    return seconds ? Math.round(seconds * 1000 * 10) / 10 : 0;
+}
@@ -1,57 +1,183 @@
 // src/lib/VoIPController.ts - Advanced WebRTC VoIP Controller
 import Peer from 'simple-peer';
-import { ConnectionState, CallQuality, CallStats } from '../types';
+import { ConnectionState, CallQuality, CallStats, QualityScore, ChatMessage, ChatMessageStatus, DeviceSelection, FileTransfer, IceServersResponse, MatchPreferences, RemoteMediaState, ScalableEncoding, ScreenShareOptions, VideoLayer, VoIPSettings } from '../types';
+import { ClientMessage, MediaKind, ProtocolError, ServerMessage, encodeMessage, parseMessage } from '../../shared/protocol';
+import { PeerMessage, encodePeerMessage, parsePeerMessage } from './peerProtocol';
+import ChatChannel from './ChatChannel';
+import StatsCollector from './StatsCollector';
+import QualityMonitor from './QualityMonitor';
+import BandwidthController, { BandwidthDecision, Ceilings, describeDecision } from './BandwidthController';
+import FileTransferManager from './FileTransferManager';
+import AudioProcessor from './AudioProcessor';
+import { DEFAULT_SETTINGS } from './settings';
+import { preferCodec, setFormatParameters, setPacketTime } from './sdp';
 
 interface VoIPControllerOptions {
     onConnectionStateChange: (state: ConnectionState) => void;
-    onCallQualityChange: (quality: CallQuality) => void;
+    /** The weakest peer link; score is null while nothing has been measured */
+    onCallQualityChange: (quality: CallQuality, score: QualityScore | null) => void;
+    /** The score of one link, with which end of it is struggling */
+    onPeerQualityChange: (peerId: string, score: QualityScore) => void;
+    /** A fresh stats sample for the link to one peer, every couple of seconds */
+    onStats: (peerId: string, stats: CallStats) => void;
     onLocalStream: (stream: MediaStream) => void;
-    onRemoteStream: (stream: MediaStream) => void;
+    onRemoteStream: (peerId: string, stream: MediaStream) => void;
+    onRemoteStreamRemoved: (peerId: string) => void;
+    /** A peer's screen, when they send it as a separate stream; null once they stop */
+    onRemoteScreenStream: (peerId: string, stream: MediaStream | null) => void;
+    /** A partner muted, turned their camera off or started sharing */
+    onRemoteMediaChange: (peerId: string, media: Partial<RemoteMediaState>) => void;
+    onScreenShareChange: (active: boolean) => void;
+    onRemoteRecordingChange: (peerId: string, recording: boolean) => void;
+    onDevicesChange: (devices: MediaDeviceInfo[]) => void;
+    /** A device in use went away and the default one took over */
+    onDeviceFallback: (kind: MediaDeviceKind) => void;
+    onRoomCreated: (roomId: string) => void;
+    onChatMessage: (message: ChatMessage) => void;
+    onChatMessageStatus: (id: string, status: ChatMessageStatus) => void;
+    onFileTransferChange: (transfer: FileTransfer) => void;
     onError: (error: Error) => void;
+    /** How long an ICE restart may take before the peer is dropped, in ms */
+    iceRestartTimeout?: number;
 }
 
+const ROOM_ERROR_CODES = ['invalid-room-id', 'room-exists', 'room-full', 'room-not-found'];
+
+// Worst first, so the overall call quality is the weakest link in the mesh
+const QUALITY_RANK: CallQuality[] = ['poor', 'fair', 'good', 'excellent'];
+
+const DEFAULT_ICE_RESTART_TIMEOUT = 20000;
+
+const VIDEO_CONSTRAINTS: MediaTrackConstraints = {
+    width: { min: 640, ideal: 1280, max: 1920 },
+    height: { min: 480, ideal: 720, max: 1080 },
+    frameRate: { ideal: 30, max: 60 }
+};
+
+// Echo cancellation, noise suppression and AGC come from the user's settings
+const AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+    sampleRate: 48000,
+    channelCount: 2
+};
+
+// What each video layer may cost. Browsers can't receive simulcast, so a
+// peer-to-peer call always has one camera encoding: in 'scaled' mode it is
+// resized to the requested layer, in 'svc' mode it carries the spatial
+// layers up to the requested one.
+const VIDEO_LAYERS: Record<VideoLayer, { scaleResolutionDownBy: number; maxBitrate: number; spatialLayers: number }> = {
+    low: { scaleResolutionDownBy: 4, maxBitrate: 150000, spatialLayers: 1 },
+    mid: { scaleResolutionDownBy: 2, maxBitrate: 600000, spatialLayers: 2 },
+    high: { scaleResolutionDownBy: 1, maxBitrate: 2500000, spatialLayers: 3 }
+};
+const LAYER_ORDER: VideoLayer[] = ['low', 'mid', 'high'];
+
+// Only these codecs can carry spatial layers in one stream
+const SVC_CODECS = ['vp9', 'av1'];
+
+// A renegotiation request that also asks the initiator for fresh ICE credentials
+const ICE_RESTART_REQUEST: Peer.SignalData & { iceRestart: true } = { type: 'renegotiate', renegotiate: true, iceRestart: true };
+
+function isIceRestartRequest(signal: Peer.SignalData): boolean {
+    return signal.type === 'renegotiate' && 'iceRestart' in signal && signal.iceRestart === true;
+}
+
+function worstQuality(qualities: CallQuality[]): CallQuality {
+    return QUALITY_RANK.find(quality => qualities.includes(quality)) ?? 'unknown';
+}
+
+type InputKind = 'audioinput' | 'videoinput';
+
+const MEDIA_FIELDS: Record<MediaKind, keyof RemoteMediaState> = {
+    audio: 'audioEnabled',
+    video: 'videoEnabled',
+    screen: 'screenSharing'
+};
+
+const TRACK_KINDS: Record<InputKind, 'audio' | 'video'> = {
+    audioinput: 'audio',
+    videoinput: 'video'
+};
+
+// Refetch TURN credentials once this much of their lifetime has passed
+const ICE_SERVER_REFRESH_RATIO = 0.8;
+// A failed refresh is retried after 5 s, doubling up to a minute
+const ICE_SERVER_RETRY_DELAY = 5000;
+const ICE_SERVER_MAX_RETRY_DELAY = 60000;
+
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+    { urls: 'stun:stun.l.google.com:19302' },
+    { urls: 'stun:stun1.l.google.com:19302' }
+];
+
 export default class VoIPController {
     private ws: WebSocket | null = null;
-    private peer: Peer.Instance | null = null;
+    private peers = new Map<string, Peer.Instance>();
     private localStream: MediaStream | null = null;
     private screenStream: MediaStream | null = null;
+    private audioProcessor: AudioProcessor | null = null;
+    private devices: DeviceSelection = { audioinput: null, videoinput: null, audiooutput: null };
+    private settings: VoIPSettings = DEFAULT_SETTINGS;
+    private screenShareOptions: ScreenShareOptions = { withAudio: false, separateTracks: false };
+    private isRecording = false;
+    // First stream each peer sent us; any other stream from them is a screen share
+    private cameraStreamIds = new Map<string, string>();
     private options: VoIPControllerOptions;
     private clientId: string = '';
-    private partnerId: string | null = null;
-    private statsInterval: NodeJS.Timer | null = null;
+    private resumeToken: string | null = null;
+    private roomId: string | null = null;
+    private isPrivateRoom = false;
+    private statsInterval: ReturnType<typeof setInterval> | null = null;
     private reconnectAttempts = 0;
     private maxReconnectAttempts = 5;
     private iceServers: RTCIceServer[] = [];
-    private qualityMonitor: QualityMonitor;
+    private iceServerRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+    // When the current TURN credentials stop working, null if we only have STUN
+    private iceServersExpireAt: number | null = null;
+    private iceServerRetries = 0;
+    private qualityMonitors = new Map<string, QualityMonitor>();
+    private statsCollectors = new Map<string, StatsCollector>();
+    private bandwidthControllers = new Map<string, BandwidthController>();
+    private peerScores = new Map<string, QualityScore>();
+    // The layer each receiver asked us for, and the one we last asked each sender for
+    private requestedLayers = new Map<string, VideoLayer>();
+    private preferredLayers = new Map<string, VideoLayer>();
+    private iceRestarts = new Map<string, ReturnType<typeof setTimeout>>();
+    // Signals produced while the signaling socket is down, sent after resuming
+    private pendingSignals: ClientMessage[] = [];
     private heartbeatInterval: NodeJS.Timer | null = null;
+    private chat: ChatChannel;
+    private files: FileTransferManager;
 
     constructor(options: VoIPControllerOptions) {
         this.options = options;
-        this.qualityMonitor = new QualityMonitor(this.handleQualityChange.bind(this));
+        this.chat = new ChatChannel({
+            send: (peerId, message) => this.sendToPeer(peerId, message),
+            onMessage: options.onChatMessage,
+            onStatusChange: options.onChatMessageStatus
+        });
+        this.files = new FileTransferManager({
+            send: (peerId, message) => this.sendToPeer(peerId, message),
+            getChannel: (peerId) => this.peers.get(peerId)?._channel ?? null,
+            onTransferChange: options.onFileTransferChange
+        });
     }
 
-    async initialize(): Promise<void> {
+    async initialize(devices: Partial<DeviceSelection> = {}, settings: VoIPSettings = DEFAULT_SETTINGS): Promise<void> {
+        this.settings = settings;
+
         try {
             // Fetch ICE servers configuration
             await this.fetchICEServers();
             
-            // Get user media with optimized constraints
-            this.localStream = await navigator.mediaDevices.getUserMedia({
-                video: {
-                    width: { min: 640, ideal: 1280, max: 1920 },
-                    height: { min: 480, ideal: 720, max: 1080 },
-                    frameRate: { ideal: 30, max: 60 }
-                },
-                audio: {
-                    echoCancellation: true,
-                    noiseSuppression: true,
-                    autoGainControl: true,
-                    sampleRate: 48000,
-                    channelCount: 2
-                }
-            });
+            // Get user media on the remembered devices, or the defaults if they're gone
+            this.devices = { ...this.devices, ...devices };
+            this.localStream = await this.openLocalStream();
+            await this.startAudioProcessing();
 
             this.options.onLocalStream(this.localStream);
+
+            navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+            await this.refreshDevices();
             
             // Connect to signaling server
             await this.connectToSignalingServer();
@@ -64,20 +190,204 @@ export default class VoIPController {
         }
     }
 
+    private constraintsFor(kind: InputKind, deviceId: string | null): MediaTrackConstraints {
+        const base = kind === 'audioinput'
+            ? { ...AUDIO_CONSTRAINTS, ...this.audioProcessingConstraints() }
+            : VIDEO_CONSTRAINTS;
+        return deviceId ? { ...base, deviceId: { exact: deviceId } } : base;
+    }
+
+    private audioProcessingConstraints(): MediaTrackConstraints {
+        const { echoCancellation, noiseSuppression, autoGainControl } = this.settings;
+        return { echoCancellation, noiseSuppression, autoGainControl };
+    }
+
+    private async openLocalStream(): Promise<MediaStream> {
+        try {
+            return await navigator.mediaDevices.getUserMedia({
+                audio: this.constraintsFor('audioinput', this.devices.audioinput),
+                video: this.constraintsFor('videoinput', this.devices.videoinput)
+            });
+        } catch (error) {
+            const hasPreference = this.devices.audioinput || this.devices.videoinput;
+            const isMissingDevice = error instanceof DOMException &&
+                (error.name === 'OverconstrainedError' || error.name === 'NotFoundError');
+            if (!hasPreference || !isMissingDevice) throw error;
+
+            console.warn('Remembered devices unavailable, using defaults:', error);
+            return navigator.mediaDevices.getUserMedia({
+                audio: this.constraintsFor('audioinput', null),
+                video: this.constraintsFor('videoinput', null)
+            });
+        }
+    }
+
+    // Without Web Audio the microphone track simply goes out unprocessed
+    private async startAudioProcessing(): Promise<void> {
+        try {
+            this.audioProcessor = await AudioProcessor.create(this.settings.audioChain);
+            this.audioProcessor.setInput(this.localStream?.getAudioTracks()[0] ?? null);
+        } catch (error) {
+            console.warn('Audio processing unavailable:', error);
+            this.audioProcessor = null;
+        }
+    }
+
+    // The microphone track stays in localStream (preview, device switching,
+    // constraints); only the senders carry the processed one
+    private async routeAudio(peer: Peer.Instance): Promise<void> {
+        const micTrack = this.localStream?.getAudioTracks()[0];
+        const processor = this.audioProcessor;
+        if (!peer._pc || !micTrack) return;
+
+        if (processor && this.settings.audioChain.enabled && !processor.isRunning) {
+            // Allowed once the page has seen a user gesture, which joining a call is
+            await processor.resume().catch(() => {});
+        }
+        const useProcessed = processor && this.settings.audioChain.enabled && processor.isRunning;
+        const track = useProcessed ? processor.track : micTrack;
+
+        for (const sender of peer._pc.getSenders()) {
+            const isMicSender = sender.track === micTrack || (processor && sender.track === processor.track);
+            if (isMicSender && sender.track !== track) {
+                await sender.replaceTrack(track);
+            }
+        }
+    }
+
+    private routeAudioToAll(): void {
+        this.peers.forEach((peer, peerId) => {
+            if (peer.destroyed) return;
+            this.routeAudio(peer).catch((error) => {
+                console.warn(`Could not route audio for ${peerId}:`, error);
+            });
+        });
+    }
+
+    private async refreshDevices(): Promise<MediaDeviceInfo[]> {
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        this.options.onDevicesChange(devices);
+        return devices;
+    }
+
+    // Swaps the local track for one from another device, on the wire included
+    private async switchInput(kind: InputKind, deviceId: string | null): Promise<void> {
+        const localStream = this.localStream;
+        if (!localStream) return;
+
+        const trackKind = TRACK_KINDS[kind];
+        const newStream = await navigator.mediaDevices.getUserMedia({ [trackKind]: this.constraintsFor(kind, deviceId) });
+        const newTrack = newStream.getTracks()[0];
+        const oldTrack = localStream.getTracks().find(track => track.kind === trackKind);
+
+        // While the screen replaces the camera, the new camera waits for the share to end
+        const isOnWire = !(trackKind === 'video' && this.screenStream && !this.screenShareOptions.separateTracks);
+
+        this.peers.forEach(peer => {
+            if (peer.destroyed) return;
+            if (!oldTrack) {
+                peer.addTrack(newTrack, localStream);
+            } else if (isOnWire) {
+                peer.replaceTrack(oldTrack, newTrack, localStream);
+            }
+        });
+
+        if (oldTrack) {
+            newTrack.enabled = oldTrack.enabled;
+            localStream.removeTrack(oldTrack);
+            oldTrack.stop();
+        }
+        localStream.addTrack(newTrack);
+
+        // replaceTrack above put the raw microphone back on the wire
+        if (trackKind === 'audio') {
+            this.audioProcessor?.setInput(newTrack);
+            this.routeAudioToAll();
+        }
+    }
+
+    private handleDeviceChange = async (): Promise<void> => {
+        const devices = await this.refreshDevices();
+        if (!this.localStream) return;
+
+        for (const kind of ['audioinput', 'videoinput'] as const) {
+            const track = this.localStream.getTracks().find(t => t.kind === TRACK_KINDS[kind]);
+            if (!track) continue;
+
+            const isAvailable = (deviceId: string | null | undefined) =>
+                devices.some(device => device.kind === kind && device.deviceId === deviceId);
+            const preferred = this.devices[kind];
+            const currentId = track.getSettings().deviceId;
+
+            try {
+                if (preferred && currentId !== preferred && isAvailable(preferred)) {
+                    // The chosen device is back, e.g. the headset was plugged in again
+                    await this.switchInput(kind, preferred);
+                } else if (track.readyState === 'ended' || !isAvailable(currentId)) {
+                    await this.switchInput(kind, null);
+                    this.options.onDeviceFallback(kind);
+                }
+            } catch (error) {
+                console.warn(`Could not switch ${kind} after a device change:`, error);
+            }
+        }
+    };
+
     private async fetchICEServers(): Promise<void> {
         try {
-            const response = await fetch('/api/ice-servers');
-            const data = await response.json();
+            const query = this.clientId ? `?user=${encodeURIComponent(this.clientId)}` : '';
+            const response = await fetch(`/api/ice-servers${query}`);
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            const data: IceServersResponse = await response.json();
             this.iceServers = data.iceServers;
+            this.iceServersExpireAt = data.ttl ? Date.now() + data.ttl * 1000 : null;
+            this.iceServerRetries = 0;
+            this.applyIceServers();
+
+            if (data.ttl) {
+                this.scheduleIceServerRefresh(data.ttl * 1000 * ICE_SERVER_REFRESH_RATIO);
+            }
         } catch (error) {
-            console.warn('Failed to fetch ICE servers, using defaults:', error);
-            this.iceServers = [
-                { urls: 'stun:stun.l.google.com:19302' },
-                { urls: 'stun:stun1.l.google.com:19302' }
-            ];
+            const isRefresh = this.iceServersExpireAt !== null;
+            if (isRefresh && Date.now() < this.iceServersExpireAt!) {
+                console.warn('Failed to refresh ICE servers, keeping the current ones:', error);
+            } else {
+                console.warn('Failed to fetch ICE servers, using defaults:', error);
+                this.iceServers = DEFAULT_ICE_SERVERS;
+                this.applyIceServers();
+            }
+
+            // Keep trying, or TURN is gone for the rest of the session
+            if (isRefresh) {
+                const delay = Math.min(ICE_SERVER_RETRY_DELAY * 2 ** this.iceServerRetries, ICE_SERVER_MAX_RETRY_DELAY);
+                this.iceServerRetries++;
+                this.scheduleIceServerRefresh(delay);
+            }
         }
     }
 
+    // TURN credentials expire, so long calls need fresh ones before ICE restarts
+    private scheduleIceServerRefresh(delay: number): void {
+        this.clearIceServerRefresh();
+        this.iceServerRefreshTimer = setTimeout(() => {
+            this.iceServerRefreshTimer = null;
+            this.fetchICEServers();
+        }, delay);
+    }
+
+    private clearIceServerRefresh(): void {
+        if (this.iceServerRefreshTimer) {
+            clearTimeout(this.iceServerRefreshTimer);
+            this.iceServerRefreshTimer = null;
+        }
+    }
+
+    private applyIceServers(): void {
+        this.peers.forEach(peer => {
+            peer._pc.setConfiguration({ ...peer._pc.getConfiguration(), iceServers: this.iceServers });
+        });
+    }
+
     private async connectToSignalingServer(): Promise<void> {
         const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
         const wsUrl = `${wsProtocol}//${window.location.host}`;
@@ -105,9 +415,7 @@ export default class VoIPController {
 
     private startHeartbeat(): void {
         this.heartbeatInterval = setInterval(() => {
-            if (this.ws?.readyState === WebSocket.OPEN) {
-                this.ws.send(JSON.stringify({ type: 'heartbeat' }));
-            }
+            this.sendSignaling({ type: 'heartbeat' });
         }, 30000);
     }
 
@@ -118,51 +426,101 @@ export default class VoIPController {
         }
     }
 
+    private sendSignaling(message: ClientMessage): void {
+        if (this.ws?.readyState === WebSocket.OPEN) {
+            this.ws.send(encodeMessage(message));
+        } else if (message.type === 'signal') {
+            this.pendingSignals.push(message);
+        }
+    }
+
     private handleSignalingMessage(event: MessageEvent): void {
-        const data = JSON.parse(event.data);
+        const result = parseMessage(event.data, 'server');
+        if (!result.ok) {
+            // Tell the server instead of silently dropping what we couldn't understand
+            console.warn('Rejected signaling message:', result.error);
+            this.sendSignaling({ type: 'error', payload: result.error });
+            return;
+        }
+
+        const data: ServerMessage = result.message;
         
         switch (data.type) {
             case 'connected':
-                this.clientId = data.payload.clientId;
+                this.handleConnected(data.payload.clientId, data.payload.resumeToken);
+                break;
+
+            case 'resumed':
+                this.handleResumed(data.payload.clientId, data.payload.resumeToken, data.payload.roomId, data.payload.participants);
                 break;
                 
             case 'waiting':
                 this.options.onConnectionStateChange('searching');
                 break;
+
+            case 'room-created':
+                this.roomId = data.payload.roomId;
+                this.isPrivateRoom = true;
+                this.options.onConnectionStateChange('searching');
+                this.options.onRoomCreated(data.payload.roomId);
+                break;
                 
             case 'matched':
-                this.partnerId = data.payload.partnerId;
-                this.createPeerConnection(data.payload.initiator);
+                this.roomId = data.payload.roomId;
+                this.isPrivateRoom = false;
+                this.createPeerConnection(data.payload.partnerId, data.payload.initiator);
+                break;
+
+            case 'room-joined':
+                this.roomId = data.payload.roomId;
+                this.isPrivateRoom = true;
+                data.payload.participants.forEach((peerId) => {
+                    this.createPeerConnection(peerId, true);
+                });
+                break;
+
+            case 'peer-joined':
+                this.createPeerConnection(data.payload.peerId, false);
                 break;
                 
             case 'signal':
-                if (this.peer) {
-                    this.peer.signal(data.payload.signal);
-                }
+                this.handleSignal(data.payload.from, data.payload.signal);
                 break;
                 
-            case 'partner-disconnected':
-                this.handlePartnerDisconnection();
+            case 'peer-left':
+                this.handlePeerLeft(data.payload.peerId, data.payload.roomClosed);
                 break;
                 
             case 'partner-media-toggle':
                 this.handlePartnerMediaToggle(data.payload);
                 break;
                 
+            case 'partner-recording':
+                this.options.onRemoteRecordingChange(data.payload.from, data.payload.recording);
+                break;
+
             case 'partner-quality':
-                this.handlePartnerQuality(data.payload.stats);
+                this.handlePartnerQuality(data.payload.from, data.payload.stats);
+                break;
+
+            case 'error':
+                this.handleServerError(data.payload);
                 break;
         }
     }
 
-    private createPeerConnection(initiator: boolean): void {
-        if (!this.localStream) return;
+    private createPeerConnection(peerId: string, initiator: boolean): void {
+        if (!this.localStream || this.peers.has(peerId)) return;
         
-        this.options.onConnectionStateChange('connecting');
+        if (this.peers.size === 0) {
+            this.options.onConnectionStateChange('connecting');
+        }
         
-        this.peer = new Peer({
+        // Late joiners get whatever we are currently sharing
+        const separateScreen = this.screenStream && this.screenShareOptions.separateTracks;
+        const peer = new Peer({
             initiator,
-            stream: this.localStream,
+            streams: separateScreen ? [this.localStream, this.screenStream!] : [this.localStream],
             trickle: true,
             config: {
                 iceServers: this.iceServers
@@ -170,266 +528,762 @@ export default class VoIPController {
             offerOptions: {
                 offerToReceiveAudio: true,
                 offerToReceiveVideo: true
-            }
+            },
+            // Read at negotiation time, so settings changes apply to the next offer/answer
+            sdpTransform: (sdp) => this.transformSdp(sdp)
+        });
+        this.peers.set(peerId, peer);
+        this.watchIceState(peerId, peer);
+        // simple-peer creates its first offer on the next tick, after this
+        this.applyCodecPreferences(peer);
+        // Sets up the camera encoding (SVC mode, layer and ceilings) before anything is sent
+        this.adaptBandwidth(peerId, peer, this.getBandwidthController(peerId).current);
+        this.routeAudio(peer).catch((error) => {
+            console.warn(`Could not route audio for ${peerId}:`, error);
         });
+        if (this.screenStream && !separateScreen) {
+            this.shareScreenInPlaceOfCamera(peer, this.screenStream);
+        }
         
-        this.peer.on('signal', (signal) => {
-            this.ws?.send(JSON.stringify({
+        peer.on('signal', (signal) => {
+            this.sendSignaling({
                 type: 'signal',
-                payload: { to: this.partnerId, signal }
-            }));
+                payload: { to: peerId, signal }
+            });
         });
         
-        this.peer.on('stream', (stream) => {
-            this.options.onRemoteStream(stream);
+        peer.on('stream', (stream) => {
+            const cameraStreamId = this.cameraStreamIds.get(peerId);
+            if (cameraStreamId && cameraStreamId !== stream.id) {
+                this.options.onRemoteScreenStream(peerId, stream);
+                return;
+            }
+
+            this.cameraStreamIds.set(peerId, stream.id);
+            this.options.onRemoteStream(peerId, stream);
             this.options.onConnectionStateChange('connected');
             this.startQualityMonitoring();
         });
         
-        this.peer.on('error', (error) => {
-            console.error('Peer error:', error);
+        peer.on('error', (error) => {
+            console.error(`Peer error (${peerId}):`, error);
             this.options.onError(new Error('Connection failed'));
-            this.handleDisconnection();
+            this.removePeer(peerId);
         });
         
-        this.peer.on('close', () => {
-            this.handlePartnerDisconnection();
+        peer.on('close', () => {
+            this.removePeer(peerId);
         });
         
         // Advanced peer events
-        this.peer.on('connect', () => {
-            console.log('Peer connection established');
+        peer.on('connect', () => {
+            console.log(`Peer connection established with ${peerId}`);
+            this.chat.flush(peerId);
+            this.files.resumePeer(peerId);
+            this.announceMediaState();
+            if (this.isRecording) {
+                this.sendSignaling({ type: 'recording-state', payload: { recording: true } });
+            }
+            this.preferredLayers.delete(peerId);
+            this.updateReceiveLayers();
         });
         
-        this.peer.on('data', (data) => {
-            this.handleDataChannel(data);
+        peer.on('data', (data) => {
+            this.handleDataChannel(peerId, data);
         });
     }
 
+    // simple-peer destroys the connection as soon as ICE fails. Keep its
+    // handlers away from failed states so we can restart ICE instead.
+    private watchIceState(peerId: string, peer: Peer.Instance): void {
+        const pc = peer._pc;
+        const isFailed = () => pc.iceConnectionState === 'failed' || pc.connectionState === 'failed';
+        const guard = (handler: RTCPeerConnection['oniceconnectionstatechange']) =>
+            (event: Event) => {
+                if (!isFailed()) handler?.call(pc, event);
+            };
+
+        const onIceConnectionStateChange = guard(pc.oniceconnectionstatechange);
+        pc.onicegatheringstatechange = guard(pc.onicegatheringstatechange);
+        pc.onconnectionstatechange = guard(pc.onconnectionstatechange);
+        pc.oniceconnectionstatechange = (event) => {
+            onIceConnectionStateChange(event);
+            this.handleIceStateChange(peerId, pc.iceConnectionState);
+        };
+    }
+
+    private handleIceStateChange(peerId: string, state: RTCIceConnectionState): void {
+        switch (state) {
+            case 'disconnected':
+            case 'failed':
+                this.beginIceRestart(peerId);
+                break;
+
+            case 'connected':
+            case 'completed':
+                this.endIceRestart(peerId);
+                break;
+        }
+    }
+
+    private beginIceRestart(peerId: string): void {
+        const peer = this.peers.get(peerId);
+        if (!peer || this.iceRestarts.has(peerId)) return;
+
+        console.warn(`ICE connection to ${peerId} lost, restarting ICE`);
+        this.iceRestarts.set(peerId, setTimeout(() => {
+            this.iceRestarts.delete(peerId);
+            console.warn(`ICE restart with ${peerId} timed out`);
+            this.options.onError(new Error('Connection to partner lost'));
+            this.removePeer(peerId);
+        }, this.options.iceRestartTimeout ?? DEFAULT_ICE_RESTART_TIMEOUT));
+        this.options.onConnectionStateChange('reconnecting');
+        // Re-offered from the last acked chunk once the restart succeeds
+        this.files.pausePeer(peerId);
+
+        // The next offer carries fresh ICE credentials. Only the initiator
+        // makes offers; restartIce() on the other side would have no effect,
+        // so it asks the initiator over signaling, which queues while offline.
+        if (peer.initiator) {
+            peer._pc.restartIce();
+            peer.negotiate();
+        } else {
+            this.sendSignaling({ type: 'signal', payload: { to: peerId, signal: ICE_RESTART_REQUEST } });
+        }
+    }
+
+    private handleSignal(peerId: string, signal: Peer.SignalData): void {
+        const peer = this.peers.get(peerId);
+        if (!peer) return;
+
+        // simple-peer answers the renegotiate part with a new offer
+        if (isIceRestartRequest(signal) && peer.initiator) {
+            console.warn(`${peerId} lost the ICE connection, restarting ICE`);
+            peer._pc.restartIce();
+        }
+        peer.signal(signal);
+    }
+
+    private endIceRestart(peerId: string): void {
+        const timer = this.iceRestarts.get(peerId);
+        if (!timer) return;
+
+        clearTimeout(timer);
+        this.iceRestarts.delete(peerId);
+        console.log(`ICE restart with ${peerId} succeeded`);
+        // The same peer never fires 'connect' again, so pick interrupted transfers up here
+        this.files.resumePeer(peerId);
+
+        if (this.iceRestarts.size === 0 && this.ws?.readyState === WebSocket.OPEN) {
+            this.options.onConnectionStateChange('connected');
+        }
+    }
+
+    private removePeer(peerId: string): void {
+        const peer = this.peers.get(peerId);
+        if (!peer) return;
+
+        clearTimeout(this.iceRestarts.get(peerId));
+        this.iceRestarts.delete(peerId);
+        this.peers.delete(peerId);
+        this.chat.removePeer(peerId);
+        this.files.removePeer(peerId);
+        this.cameraStreamIds.delete(peerId);
+        this.qualityMonitors.delete(peerId);
+        this.statsCollectors.delete(peerId);
+        this.bandwidthControllers.delete(peerId);
+        this.peerScores.delete(peerId);
+        this.requestedLayers.delete(peerId);
+        this.preferredLayers.delete(peerId);
+        peer.destroy();
+        this.options.onRemoteStreamRemoved(peerId);
+
+        if (this.peers.size > 0) {
+            // Fewer tiles to share the screen, so bigger ones
+            this.updateReceiveLayers();
+            return;
+        }
+
+        // Alone again: a private room keeps waiting for people, a matched call is over
+        if (this.isPrivateRoom && this.roomId) {
+            this.stopQualityMonitoring();
+            this.options.onCallQualityChange('unknown', null);
+            this.options.onConnectionStateChange('searching');
+        } else {
+            this.handlePartnerDisconnection();
+        }
+    }
+
     private startQualityMonitoring(): void {
-        if (!this.peer) return;
+        if (this.statsInterval) return;
         
         this.statsInterval = setInterval(async () => {
-            if (this.peer && this.peer.connected) {
-                const stats = await this.getConnectionStats();
-                this.qualityMonitor.updateStats(stats);
-                
-                // Send quality report to partner
-                this.ws?.send(JSON.stringify({
-                    type: 'quality-report',
-                    payload: { stats }
-                }));
+            for (const [peerId, peer] of this.peers) {
+                if (!peer.connected) continue;
+
+                // One peer's failure must not stop the others from being measured
+                try {
+                    const stats = await this.getConnectionStats(peerId, peer);
+                    this.getQualityMonitor(peerId).updateStats(stats);
+                    this.options.onStats(peerId, stats);
+                    this.adaptBandwidth(peerId, peer, this.getBandwidthController(peerId).update(stats));
+
+                    // Send quality report to the peer this link belongs to
+                    this.sendSignaling({
+                        type: 'quality-report',
+                        payload: { to: peerId, stats }
+                    });
+                } catch (error) {
+                    console.warn(`Failed to update stats for ${peerId}:`, error);
+                }
             }
         }, 2000);
     }
 
-    private async getConnectionStats(): Promise<CallStats> {
-        if (!this.peer?._pc) {
+    private stopQualityMonitoring(): void {
+        if (this.statsInterval) {
+            clearInterval(this.statsInterval);
+            this.statsInterval = null;
+        }
+    }
+
+    private getQualityMonitor(peerId: string): QualityMonitor {
+        let monitor = this.qualityMonitors.get(peerId);
+        if (!monitor) {
+            monitor = new QualityMonitor((score) => this.handleQualityChange(peerId, score));
+            this.qualityMonitors.set(peerId, monitor);
+        }
+        return monitor;
+    }
+
+    private async getConnectionStats(peerId: string, peer: Peer.Instance): Promise<CallStats> {
+        if (!peer._pc) {
             return this.getDefaultStats();
         }
-        
-        const stats = await this.peer._pc.getStats();
-        let audioStats: any = null;
-        let videoStats: any = null;
-        let candidatePair: any = null;
-        
-        stats.forEach((report) => {
-            if (report.type === 'inbound-rtp' && report.mediaType === 'audio') {
-                audioStats = report;
-            } else if (report.type === 'inbound-rtp' && report.mediaType === 'video') {
-                videoStats = report;
-            } else if (report.type === 'candidate-pair' && report.nominated) {
-                candidatePair = report;
-            }
-        });
-        
+
+        let collector = this.statsCollectors.get(peerId);
+        if (!collector) {
+            collector = new StatsCollector();
+            this.statsCollectors.set(peerId, collector);
+        }
+        return collector.collect(await peer._pc.getStats());
+    }
+
+    private getDefaultStats(): CallStats {
+        const outbound = { bitrate: 0, packetLoss: 0, jitter: 0, roundTripTime: 0, codec: 'unknown' };
+        const resolution = { width: 0, height: 0 };
         return {
-            audio: {
-                bitrate: audioStats?.bytesReceived ? this.calculateBitrate(audioStats.bytesReceived, audioStats.timestamp) : 0,
-                packetLoss: audioStats?.packetsLost || 0,
-                jitter: audioStats?.jitter || 0,
-                codec: audioStats?.codecId || 'unknown'
-            },
+            audio: { bitrate: 0, packetLoss: 0, jitter: 0, codec: 'unknown', outbound },
             video: {
-                bitrate: videoStats?.bytesReceived ? this.calculateBitrate(videoStats.bytesReceived, videoStats.timestamp) : 0,
-                frameRate: videoStats?.framesPerSecond || 0,
-                resolution: {
-                    width: videoStats?.frameWidth || 0,
-                    height: videoStats?.frameHeight || 0
-                },
-                codec: videoStats?.codecId || 'unknown'
+                bitrate: 0,
+                packetLoss: 0,
+                frozenPercent: 0,
+                frameRate: 0,
+                resolution,
+                codec: 'unknown',
+                outbound: { ...outbound, frameRate: 0, resolution, encodings: [] }
             },
             connection: {
-                roundTripTime: candidatePair?.currentRoundTripTime || 0,
-                localCandidateType: candidatePair?.localCandidateType || 'unknown',
-                remoteCandidateType: candidatePair?.remoteCandidateType || 'unknown',
-                protocol: candidatePair?.protocol || 'unknown'
+                roundTripTime: 0,
+                availableOutgoingBitrate: 0,
+                localCandidateType: 'unknown',
+                remoteCandidateType: 'unknown',
+                protocol: 'unknown'
             }
         };
     }
-    
-    private previousBytes = 0;
-    private previousTimestamp = 0;
-    
-    private calculateBitrate(currentBytes: number, currentTimestamp: number): number {
-        if (this.previousTimestamp === 0) {
-            this.previousBytes = currentBytes;
-            this.previousTimestamp = currentTimestamp;
-            return 0;
-        }
-        
-        const bytes = currentBytes - this.previousBytes;
-        const time = (currentTimestamp - this.previousTimestamp) / 1000; // Convert to seconds
-        const bitrate = (bytes * 8) / time;
-        
-        this.previousBytes = currentBytes;
-        this.previousTimestamp = currentTimestamp;
-        
-        return Math.round(bitrate);
+
+    private handleQualityChange(peerId: string, score: QualityScore): void {
+        this.peerScores.set(peerId, score);
+        this.options.onPeerQualityChange(peerId, score);
+        this.options.onCallQualityChange(this.getOverallQuality(), this.getOverallScore());
+        this.updateReceiveLayers();
     }
-    
-    private getDefaultStats(): CallStats {
+
+    private getOverallQuality(): CallQuality {
+        return worstQuality([...this.peerScores.values()].map(score => score.quality));
+    }
+
+    private getOverallScore(): QualityScore | null {
+        const scores = [...this.peerScores.values()];
+        if (scores.length === 0) return null;
+
+        const videoScores = scores.map(score => score.videoScore).filter((score): score is number => score !== null);
         return {
-            audio: { bitrate: 0, packetLoss: 0, jitter: 0, codec: 'unknown' },
-            video: { bitrate: 0, frameRate: 0, resolution: { width: 0, height: 0 }, codec: 'unknown' },
-            connection: { roundTripTime: 0, localCandidateType: 'unknown', remoteCandidateType: 'unknown', protocol: 'unknown' }
+            mos: Math.min(...scores.map(score => score.mos)),
+            videoScore: videoScores.length > 0 ? Math.min(...videoScores) : null,
+            quality: this.getOverallQuality(),
+            link: {
+                local: worstQuality(scores.map(score => score.link.local)),
+                remote: worstQuality(scores.map(score => score.link.remote))
+            }
         };
     }
 
-    private handleQualityChange(quality: CallQuality): void {
-        this.options.onCallQualityChange(quality);
-        
-        // Adapt bitrate based on quality
-        if (this.peer && quality !== 'excellent') {
-            this.adaptBitrate(quality);
+    private getBandwidthController(peerId: string): BandwidthController {
+        let controller = this.bandwidthControllers.get(peerId);
+        if (!controller) {
+            controller = new BandwidthController(this.bitrateCeilings());
+            this.bandwidthControllers.set(peerId, controller);
         }
+        return controller;
     }
 
-    private adaptBitrate(quality: CallQuality): void {
-        // Implement adaptive bitrate logic
-        const bitrateMap = {
-            good: { video: 800000, audio: 48000 },
-            fair: { video: 500000, audio: 32000 },
-            poor: { video: 250000, audio: 16000 },
-            unknown: { video: 500000, audio: 32000 }
-        };
-        
-        const settings = bitrateMap[quality as keyof typeof bitrateMap];
-        if (settings && this.peer?._pc) {
-            // Apply bitrate constraints
-            this.applyBitrateConstraints(settings);
-        }
+    private bitrateCeilings(): Ceilings {
+        return { video: this.settings.videoBitrate, audio: this.settings.audioBitrate };
+    }
+
+    private adaptBandwidth(peerId: string, peer: Peer.Instance, decision: BandwidthDecision | null): void {
+        if (!decision) return;
+        console.log(`Bandwidth (${peerId}): ${describeDecision(decision)}`);
+        this.applyBitrateConstraints(peerId, peer, decision).catch((error) => {
+            console.warn(`Could not apply bandwidth decision for ${peerId}:`, error);
+        });
     }
 
-    private async applyBitrateConstraints(settings: { video: number; audio: number }): Promise<void> {
-        if (!this.peer?._pc) return;
+    // Senders added since the last decision (screen share, new devices) start unconstrained
+    private reapplyBandwidth(): void {
+        this.peers.forEach((peer, peerId) => {
+            const decision = this.bandwidthControllers.get(peerId)?.current;
+            if (decision) this.applyBitrateConstraints(peerId, peer, decision).catch(() => {});
+        });
+    }
+
+    private async applyBitrateConstraints(peerId: string, peer: Peer.Instance, decision: BandwidthDecision): Promise<void> {
+        if (!peer._pc) return;
+
+        const screenTrackIds = new Set(this.screenStream?.getTracks().map(track => track.id) ?? []);
         
-        const senders = this.peer._pc.getSenders();
+        const senders = peer._pc.getSenders();
         for (const sender of senders) {
             if (sender.track?.kind === 'video') {
                 const params = sender.getParameters();
-                if (!params.encodings) params.encodings = [{}];
-                params.encodings[0].maxBitrate = settings.video;
-                await sender.setParameters(params);
+                if (!params.encodings?.length) params.encodings = [{}];
+                // Shrinking a screen makes text unreadable, so it only gets a bitrate
+                if (screenTrackIds.has(sender.track.id)) {
+                    params.encodings.forEach(encoding => {
+                        encoding.active = decision.video.active;
+                        encoding.maxBitrate = decision.video.maxBitrate;
+                        encoding.scaleResolutionDownBy = 1;
+                    });
+                    await sender.setParameters(params);
+                } else {
+                    await this.applyCameraLayers(sender, params, this.requestedLayers.get(peerId) ?? 'high', decision);
+                }
             } else if (sender.track?.kind === 'audio') {
                 const params = sender.getParameters();
-                if (!params.encodings) params.encodings = [{}];
-                params.encodings[0].maxBitrate = settings.audio;
+                if (!params.encodings?.length) params.encodings = [{}];
+                params.encodings[0].maxBitrate = decision.audio.maxBitrate;
                 await sender.setParameters(params);
             }
         }
     }
 
-    private handleDataChannel(data: any): void {
+    // Caps the camera at the layer the receiver asked for, within the bandwidth decision
+    private async applyCameraLayers(
+        sender: RTCRtpSender,
+        params: RTCRtpSendParameters,
+        requested: VideoLayer,
+        decision: BandwidthDecision
+    ): Promise<void> {
+        const { videoLayerMode, preferredVideoCodec } = this.settings;
+        const layer = VIDEO_LAYERS[requested];
+
+        params.encodings.forEach((encoding: ScalableEncoding) => {
+            encoding.active = decision.video.active;
+            encoding.maxFramerate = decision.video.maxFramerate;
+
+            if (videoLayerMode === 'scaled') {
+                encoding.scaleResolutionDownBy = Math.max(layer.scaleResolutionDownBy, decision.video.scaleResolutionDownBy);
+                encoding.maxBitrate = Math.min(layer.maxBitrate, decision.video.maxBitrate);
+            } else if (videoLayerMode === 'svc') {
+                // Full resolution on top; the spatial layers below it are the smaller sizes
+                encoding.scaleResolutionDownBy = decision.video.scaleResolutionDownBy;
+                encoding.maxBitrate = Math.min(layer.maxBitrate, decision.video.maxBitrate);
+            } else {
+                encoding.scaleResolutionDownBy = decision.video.scaleResolutionDownBy;
+                encoding.maxBitrate = decision.video.maxBitrate;
+            }
+
+            if (videoLayerMode === 'svc') {
+                // Three temporal layers let a receiver drop frames instead of whole streams
+                const spatialLayers = SVC_CODECS.includes(preferredVideoCodec) ? layer.spatialLayers : 1;
+                encoding.scalabilityMode = `L${spatialLayers}T3`;
+            } else if (encoding.scalabilityMode) {
+                encoding.scalabilityMode = 'L1T1';
+            }
+        });
+
+        try {
+            await sender.setParameters(params);
+        } catch (error) {
+            // Browsers without SVC, or without this mode for the negotiated codec
+            if (videoLayerMode !== 'svc') throw error;
+            console.warn('Scalability mode rejected, sending a single layer:', error);
+            params.encodings.forEach((encoding: ScalableEncoding) => { delete encoding.scalabilityMode; });
+            await sender.setParameters(params);
+        }
+    }
+
+    // Asks every sender for the layer that suits how big we show them: one
+    // partner fills the screen, a grid needs less, and a bad link steps down
+    private updateReceiveLayers(): void {
+        this.peers.forEach((peer, peerId) => {
+            if (!peer.connected) return;
+
+            const layer = this.receiveLayerFor(peerId);
+            if (this.preferredLayers.get(peerId) === layer) return;
+            if (this.sendToPeer(peerId, { type: 'layer-request', payload: { layer } })) {
+                this.preferredLayers.set(peerId, layer);
+            }
+        });
+    }
+
+    private receiveLayerFor(peerId: string): VideoLayer {
+        if (this.settings.receiveLayer !== 'auto') return this.settings.receiveLayer;
+
+        const tiles = this.peers.size;
+        const index = LAYER_ORDER.indexOf(tiles <= 1 ? 'high' : tiles <= 4 ? 'mid' : 'low');
+        const poor = this.peerScores.get(peerId)?.quality === 'poor';
+        return LAYER_ORDER[Math.max(0, poor ? index - 1 : index)];
+    }
+
+    private handleLayerRequest(peerId: string, layer: VideoLayer): void {
+        if (this.requestedLayers.get(peerId) === layer) return;
+        console.log(`Layer request (${peerId}): ${layer}`);
+        this.requestedLayers.set(peerId, layer);
+
+        // Applied right away, before the first stats have shaped a decision
+        const peer = this.peers.get(peerId);
+        if (peer) {
+            this.applyBitrateConstraints(peerId, peer, this.getBandwidthController(peerId).current).catch((error) => {
+                console.warn(`Could not apply layer request from ${peerId}:`, error);
+            });
+        }
+    }
+
+    // Runs on every offer and answer we create. The codec reordering backs up
+    // setCodecPreferences for browsers without it and for transceivers added
+    // mid-call; the Opus parameters describe how we want to receive, and the
+    // partner applies its own settings to its half of the exchange.
+    private transformSdp(sdp: string): string {
+        const { preferredCodec, preferredVideoCodec, opus } = this.settings;
+
+        let result = preferCodec(sdp, 'audio', preferredCodec);
+        result = preferCodec(result, 'video', preferredVideoCodec);
+        result = setFormatParameters(result, 'audio', 'opus', {
+            useinbandfec: opus.fec ? 1 : 0,
+            usedtx: opus.dtx ? 1 : 0,
+            stereo: opus.stereo ? 1 : 0,
+            'sprop-stereo': opus.stereo ? 1 : 0,
+            maxaveragebitrate: opus.maxAverageBitrate
+        });
+        return setPacketTime(result, 'audio', opus.ptime);
+    }
+
+    private applyCodecPreferences(peer: Peer.Instance): void {
+        if (!peer._pc || !('setCodecPreferences' in RTCRtpTransceiver.prototype)) return;
+
+        peer._pc.getTransceivers().forEach(transceiver => {
+            const kind = transceiver.receiver.track.kind as 'audio' | 'video';
+            const capabilities = RTCRtpReceiver.getCapabilities(kind);
+            if (!capabilities) return;
+
+            const codec = kind === 'audio' ? this.settings.preferredCodec : this.settings.preferredVideoCodec;
+            const mimeType = `${kind}/${codec}`;
+            const isPreferred = (candidate: { mimeType: string }) => candidate.mimeType.toLowerCase() === mimeType;
+            // Stable sort: the preferred codec first, everything else (RTX, RED, FEC) in the browser's order
+            const codecs = [...capabilities.codecs].sort((a, b) => Number(isPreferred(b)) - Number(isPreferred(a)));
+
+            try {
+                transceiver.setCodecPreferences(codecs);
+            } catch (error) {
+                console.warn(`Could not set ${kind} codec preferences:`, error);
+            }
+        });
+    }
+
+    private sendToPeer(peerId: string, message: PeerMessage): boolean {
+        const peer = this.peers.get(peerId);
+        if (!peer?.connected) return false;
+
         try {
-            const message = JSON.parse(data.toString());
-            console.log('Data channel message:', message);
+            peer.send(encodePeerMessage(message));
+            return true;
         } catch (error) {
-            console.error('Failed to parse data channel message:', error);
+            console.warn(`Data channel send to ${peerId} failed:`, error);
+            return false;
+        }
+    }
+
+    private handleDataChannel(peerId: string, data: any): void {
+        const message = parsePeerMessage(data);
+        if (!message) {
+            console.warn(`Dropped malformed data channel message from ${peerId}`);
+            return;
+        }
+
+        switch (message.type) {
+            case 'chat':
+                this.chat.receive(peerId, message.payload);
+                break;
+
+            case 'chat-ack':
+                this.chat.acknowledge(peerId, message.payload);
+                break;
+
+            case 'layer-request':
+                this.handleLayerRequest(peerId, message.payload.layer);
+                break;
+
+            default:
+                this.files.handleMessage(peerId, message);
+                break;
+        }
+    }
+
+    private handlePartnerMediaToggle({ from, type, enabled }: { from: string; type: MediaKind; enabled: boolean }): void {
+        console.log('Partner toggled media:', { from, type, enabled });
+
+        const field = MEDIA_FIELDS[type];
+        this.options.onRemoteMediaChange(from, { [field]: enabled });
+        if (type === 'screen' && !enabled) {
+            this.options.onRemoteScreenStream(from, null);
+        }
+    }
+
+    // Toggles sent while signaling was down never arrived, and new peers
+    // missed the earlier ones, so the whole state goes out again
+    private announceMediaState(): void {
+        this.notifyMediaToggle('audio', this.localStream?.getAudioTracks()[0]?.enabled ?? false);
+        this.notifyMediaToggle('video', this.localStream?.getVideoTracks()[0]?.enabled ?? false);
+        this.notifyMediaToggle('screen', this.screenStream !== null);
+    }
+
+    private notifyMediaToggle(type: MediaKind, enabled: boolean): void {
+        this.sendSignaling({
+            type: 'toggle-media',
+            payload: { type, enabled }
+        });
+    }
+
+    // The partner's inbound stats: how what we send arrives on their side
+    private handlePartnerQuality(peerId: string, stats: CallStats): void {
+        if (!this.peers.has(peerId)) return;
+        this.getQualityMonitor(peerId).updateRemoteStats(stats);
+    }
+
+    private handleConnected(clientId: string, resumeToken: string): void {
+        const previousToken = this.resumeToken;
+        this.clientId = clientId;
+        this.resumeToken = resumeToken;
+
+        // A fresh socket while still in a room: ask for the old session back
+        if (previousToken && (this.roomId || this.peers.size > 0)) {
+            this.sendSignaling({ type: 'resume', payload: { resumeToken: previousToken } });
+        } else if (this.reconnectAttempts > 0) {
+            // Back after a drop outside a call; there was nothing to resume
+            this.reconnectAttempts = 0;
+            this.options.onConnectionStateChange('ready');
+        }
+    }
+
+    private handleResumed(clientId: string, resumeToken: string, roomId: string | null, participants: string[]): void {
+        console.log('Signaling session resumed');
+        this.clientId = clientId;
+        this.resumeToken = resumeToken;
+        this.reconnectAttempts = 0;
+
+        if (!roomId) {
+            this.handlePartnerDisconnection();
+            return;
+        }
+
+        // Anyone who left while we were away is gone for good
+        [...this.peers.keys()]
+            .filter(peerId => !participants.includes(peerId))
+            .forEach(peerId => this.removePeer(peerId));
+
+        // Offers and candidates from ICE restarts that happened while we were offline
+        const pendingSignals = this.pendingSignals;
+        this.pendingSignals = [];
+        pendingSignals.forEach(message => {
+            if (message.type === 'signal' && this.peers.has(message.payload.to)) {
+                this.sendSignaling(message);
+            }
+        });
+        // What partners toggled meanwhile reaches us from the server's outbox
+        if (this.peers.size > 0) this.announceMediaState();
+
+        if (this.peers.size > 0) {
+            this.options.onConnectionStateChange(this.iceRestarts.size > 0 ? 'reconnecting' : 'connected');
+        } else if (this.roomId) {
+            this.options.onConnectionStateChange('searching');
         }
     }
 
-    private handlePartnerMediaToggle(payload: any): void {
-        console.log('Partner toggled media:', payload);
+    private handleServerError(payload: ProtocolError): void {
+        console.warn('Signaling error:', payload);
+
+        // The grace period ran out before we made it back
+        if (payload.code === 'resume-failed') {
+            this.cleanupPeerConnections();
+            this.options.onConnectionStateChange('disconnected');
+            this.options.onError(new Error('Lost connection to the call'));
+            return;
+        }
+
+        // A rejected room request leaves us back on the pre-join screen
+        if (ROOM_ERROR_CODES.includes(payload.code)) {
+            this.roomId = null;
+            this.options.onConnectionStateChange('ready');
+        }
+
+        this.options.onError(new Error(payload.message));
     }
 
-    private handlePartnerQuality(stats: CallStats): void {
-        console.log('Partner quality:', stats);
+    private handlePeerLeft(peerId: string, roomClosed: boolean): void {
+        if (roomClosed) {
+            this.isPrivateRoom = false;
+        }
+        this.removePeer(peerId);
     }
 
     private handlePartnerDisconnection(): void {
         this.options.onConnectionStateChange('disconnected');
-        this.cleanupPeerConnection();
+        this.cleanupPeerConnections();
     }
 
+    // The server holds our room for a grace period, so in a call or a room we
+    // reconnect and resume; peer media keeps flowing meanwhile, only signaling
+    // is down. Outside one we still reconnect, just without resuming.
     private handleDisconnection(): void {
-        if (this.reconnectAttempts < this.maxReconnectAttempts && this.partnerId) {
+        if (this.reconnectAttempts < this.maxReconnectAttempts) {
             this.reconnectAttempts++;
             this.options.onConnectionStateChange('reconnecting');
             setTimeout(() => this.reconnect(), 2000 * this.reconnectAttempts);
         } else {
             this.options.onConnectionStateChange('disconnected');
-            this.cleanupPeerConnection();
+            this.cleanupPeerConnections();
         }
     }
 
     private async reconnect(): Promise<void> {
+        // Attempts are only reset once the server confirms the resume
         try {
             await this.connectToSignalingServer();
-            this.reconnectAttempts = 0;
         } catch (error) {
             this.handleDisconnection();
         }
     }
 
-    private cleanupPeerConnection(): void {
-        if (this.statsInterval) {
-            clearInterval(this.statsInterval);
-            this.statsInterval = null;
+    private cleanupPeerConnections(): void {
+        this.stopQualityMonitoring();
+
+        // Screen sharing ends with the call
+        if (this.screenStream) {
+            this.screenStream.getTracks().forEach(track => track.stop());
+            this.screenStream = null;
+            this.options.onScreenShareChange(false);
         }
+        this.isRecording = false;
         
-        if (this.peer) {
-            this.peer.destroy();
-            this.peer = null;
-        }
+        const peerIds = [...this.peers.keys()];
+        const peers = [...this.peers.values()];
+        this.peers.clear();
+        this.chat.reset();
+        peerIds.forEach(peerId => this.files.removePeer(peerId));
+        peers.forEach(peer => peer.destroy());
+        peerIds.forEach(peerId => this.options.onRemoteStreamRemoved(peerId));
         
-        this.partnerId = null;
-        this.qualityMonitor.reset();
+        this.roomId = null;
+        this.isPrivateRoom = false;
+        this.qualityMonitors.clear();
+        this.statsCollectors.clear();
+        this.bandwidthControllers.clear();
+        this.peerScores.clear();
+        this.requestedLayers.clear();
+        this.preferredLayers.clear();
+        this.cameraStreamIds.clear();
+        this.iceRestarts.forEach(timer => clearTimeout(timer));
+        this.iceRestarts.clear();
+        this.pendingSignals = [];
     }
 
     // Public methods
-    async connect(): Promise<void> {
+    async connect(preferences: MatchPreferences = {}): Promise<void> {
         if (this.ws?.readyState === WebSocket.OPEN) {
             this.options.onConnectionStateChange('searching');
-            this.ws.send(JSON.stringify({ type: 'join-queue', payload: {} }));
+            this.sendSignaling({ type: 'join-queue', payload: { preferences } });
         }
     }
 
-    disconnect(): void {
+    async createRoom(roomId?: string): Promise<void> {
         if (this.ws?.readyState === WebSocket.OPEN) {
-            this.ws.send(JSON.stringify({ type: 'leave-queue' }));
+            this.options.onConnectionStateChange('searching');
+            this.sendSignaling({ type: 'create-room', payload: { roomId } });
+        }
+    }
+
+    async joinRoom(roomId: string): Promise<void> {
+        if (this.ws?.readyState === WebSocket.OPEN) {
+            this.roomId = roomId;
+            this.options.onConnectionStateChange('searching');
+            this.sendSignaling({ type: 'join-room', payload: { roomId } });
         }
-        this.cleanupPeerConnection();
+    }
+
+    disconnect(): void {
+        this.sendSignaling({ type: this.roomId ? 'leave-room' : 'leave-queue' });
+        // Leaving cancels transfers rather than failing them
+        this.files.reset();
+        this.cleanupPeerConnections();
         this.options.onConnectionStateChange('ready');
     }
 
+    sendChatMessage(text: string): ChatMessage | null {
+        const trimmed = text.trim();
+        if (!trimmed) return null;
+        return this.chat.send(trimmed, [...this.peers.keys()]);
+    }
+
+    async sendFile(file: File): Promise<void> {
+        await this.files.offer(file, [...this.peers.keys()]);
+    }
+
+    acceptFile(id: string): void {
+        this.files.accept(id);
+    }
+
+    declineFile(id: string): void {
+        this.files.decline(id);
+    }
+
+    cancelFile(id: string): void {
+        this.files.cancel(id);
+    }
+
     toggleAudio(): boolean {
         if (this.localStream) {
-            const audioTracks = this.localStream.getAudioTracks();
-            const newState = !audioTracks[0]?.enabled;
-            audioTracks.forEach(track => track.enabled = newState);
-            
-            // Notify partner
-            this.ws?.send(JSON.stringify({
-                type: 'toggle-media',
-                payload: { type: 'audio', enabled: newState }
-            }));
-            
-            return newState;
+            return this.setAudioEnabled(!this.localStream.getAudioTracks()[0]?.enabled);
         }
         return false;
     }
 
+    // Push-to-talk needs an explicit state rather than a toggle
+    setAudioEnabled(enabled: boolean): boolean {
+        if (!this.localStream) return false;
+
+        const audioTracks = this.localStream.getAudioTracks();
+        const changed = audioTracks.some(track => track.enabled !== enabled);
+        audioTracks.forEach(track => track.enabled = enabled);
+
+        // Notify partner
+        if (changed) this.notifyMediaToggle('audio', enabled);
+
+        return enabled;
+    }
+
     toggleVideo(): boolean {
         if (this.localStream) {
             const videoTracks = this.localStream.getVideoTracks();
@@ -437,125 +1291,180 @@ export default class VoIPController {
             videoTracks.forEach(track => track.enabled = newState);
             
             // Notify partner
-            this.ws?.send(JSON.stringify({
-                type: 'toggle-media',
-                payload: { type: 'video', enabled: newState }
-            }));
+            this.notifyMediaToggle('video', newState);
             
             return newState;
         }
         return false;
     }
 
-    async startScreenShare(): Promise<void> {
+    async startScreenShare(options: Partial<ScreenShareOptions> = {}): Promise<void> {
+        if (this.screenStream) return;
+
+        this.screenShareOptions = { ...this.screenShareOptions, ...options };
+        const { withAudio, separateTracks } = this.screenShareOptions;
+
         try {
             this.screenStream = await navigator.mediaDevices.getDisplayMedia({
                 video: {
                     cursor: 'always',
                     displaySurface: 'window'
                 },
-                audio: false
+                audio: withAudio
             });
-            
-            if (this.peer && this.localStream) {
-                const videoTrack = this.screenStream.getVideoTracks()[0];
-                const sender = this.peer._pc?.getSenders().find(
-                    s => s.track?.kind === 'video'
-                );
-                
-                if (sender) {
-                    await sender.replaceTrack(videoTrack);
-                }
-                
-                videoTrack.onended = () => {
-                    this.stopScreenShare();
-                };
-            }
         } catch (error) {
             console.error('Screen share error:', error);
             throw error;
         }
+
+        const screenStream = this.screenStream;
+
+        // The browser's own "Stop sharing" button ends the track
+        screenStream.getVideoTracks()[0]?.addEventListener('ended', () => this.stopScreenShare());
+
+        this.peers.forEach(peer => {
+            if (separateTracks) {
+                peer.addStream(screenStream);
+            } else {
+                this.shareScreenInPlaceOfCamera(peer, screenStream);
+            }
+        });
+
+        this.notifyMediaToggle('screen', true);
+        this.options.onScreenShareChange(true);
+        this.reapplyBandwidth();
     }
 
     async stopScreenShare(): Promise<void> {
-        if (this.screenStream) {
-            this.screenStream.getTracks().forEach(track => track.stop());
-            this.screenStream = null;
-            
-            if (this.peer && this.localStream) {
-                const videoTrack = this.localStream.getVideoTracks()[0];
-                const sender = this.peer._pc?.getSenders().find(
-                    s => s.track?.kind === 'video'
-                );
-                
-                if (sender && videoTrack) {
-                    await sender.replaceTrack(videoTrack);
-                }
+        const screenStream = this.screenStream;
+        if (!screenStream) return;
+        this.screenStream = null;
+
+        this.peers.forEach(peer => {
+            if (this.screenShareOptions.separateTracks) {
+                peer.removeStream(screenStream);
+            } else {
+                this.restoreCamera(peer, screenStream);
             }
+        });
+        screenStream.getTracks().forEach(track => track.stop());
+
+        this.notifyMediaToggle('screen', false);
+        this.options.onScreenShareChange(false);
+        this.reapplyBandwidth();
+    }
+
+    /** Outputs are applied by the UI with setSinkId; inputs are swapped live */
+    async setDevice(kind: MediaDeviceKind, deviceId: string | null): Promise<void> {
+        this.devices = { ...this.devices, [kind]: deviceId };
+        if (kind !== 'audiooutput') {
+            await this.switchInput(kind, deviceId);
         }
     }
 
-    destroy(): void {
-        this.stopHeartbeat();
-        this.cleanupPeerConnection();
-        
-        if (this.localStream) {
-            this.localStream.getTracks().forEach(track => track.stop());
-            this.localStream = null;
+    async updateSettings(settings: VoIPSettings): Promise<void> {
+        const previous = this.settings;
+        this.settings = settings;
+
+        const processingChanged = previous.echoCancellation !== settings.echoCancellation ||
+            previous.noiseSuppression !== settings.noiseSuppression ||
+            previous.autoGainControl !== settings.autoGainControl;
+        const audioTrack = this.localStream?.getAudioTracks()[0];
+        if (processingChanged && audioTrack) {
+            await audioTrack.applyConstraints({ ...audioTrack.getConstraints(), ...this.audioProcessingConstraints() });
         }
-        
-        if (this.screenStream) {
-            this.screenStream.getTracks().forEach(track => track.stop());
-            this.screenStream = null;
+
+        // Codec changes only take effect with a fresh offer/answer; a
+        // non-initiator's negotiate() asks the initiator to start one
+        const codecsChanged = previous.preferredCodec !== settings.preferredCodec ||
+            previous.preferredVideoCodec !== settings.preferredVideoCodec ||
+            JSON.stringify(previous.opus) !== JSON.stringify(settings.opus);
+        if (codecsChanged) {
+            this.peers.forEach(peer => {
+                if (peer.destroyed) return;
+                this.applyCodecPreferences(peer);
+                peer.negotiate();
+            });
         }
-        
-        if (this.ws) {
-            this.ws.close();
-            this.ws = null;
+
+        this.audioProcessor?.update(settings.audioChain);
+        if (previous.audioChain.enabled !== settings.audioChain.enabled) {
+            this.routeAudioToAll();
+        }
+
+        if (previous.videoBitrate !== settings.videoBitrate || previous.audioBitrate !== settings.audioBitrate) {
+            this.peers.forEach((peer, peerId) => {
+                this.adaptBandwidth(peerId, peer, this.getBandwidthController(peerId).setCeilings(this.bitrateCeilings()));
+            });
+        }
+
+        // SVC spatial layers depend on the video codec
+        if (previous.videoLayerMode !== settings.videoLayerMode || previous.preferredVideoCodec !== settings.preferredVideoCodec) {
+            this.reapplyBandwidth();
+        }
+        if (previous.receiveLayer !== settings.receiveLayer) {
+            this.updateReceiveLayers();
         }
     }
-}
 
-// Quality monitoring helper class
-class QualityMonitor {
-    private history: CallStats[] = [];
-    private maxHistory = 10;
-    private onQualityChange: (quality: CallQuality) => void;
+    // The recording itself happens in the UI; everyone else in the call has to know about it
+    setRecording(recording: boolean): void {
+        if (this.isRecording === recording) return;
+        this.isRecording = recording;
+        this.sendSignaling({ type: 'recording-state', payload: { recording } });
+    }
 
-    constructor(onQualityChange: (quality: CallQuality) => void) {
-        this.onQualityChange = onQualityChange;
+    isScreenSharing(): boolean {
+        return this.screenStream !== null;
     }
 
-    updateStats(stats: CallStats): void {
-        this.history.push(stats);
-        if (this.history.length > this.maxHistory) {
-            this.history.shift();
+    // For the pre-call connectivity check, so it tests what calls will use
+    getIceServers(): RTCIceServer[] {
+        return this.iceServers;
+    }
+
+    // The screen takes over the camera's sender; system audio rides along as an extra track
+    private shareScreenInPlaceOfCamera(peer: Peer.Instance, screenStream: MediaStream): void {
+        if (!this.localStream) return;
+
+        const cameraTrack = this.localStream.getVideoTracks()[0];
+        const screenTrack = screenStream.getVideoTracks()[0];
+        if (cameraTrack && screenTrack) {
+            peer.replaceTrack(cameraTrack, screenTrack, this.localStream);
         }
-        
-        const quality = this.calculateQuality();
-        this.onQualityChange(quality);
+        screenStream.getAudioTracks().forEach(track => peer.addTrack(track, this.localStream!));
     }
 
-    private calculateQuality(): CallQuality {
-        if (this.history.length === 0) return 'unknown';
-        
-        const recent = this.history.slice(-3);
-        const avgRtt = recent.reduce((sum, s) => sum + s.connection.roundTripTime, 0) / recent.length;
-        const avgPacketLoss = recent.reduce((sum, s) => sum + s.audio.packetLoss, 0) / recent.length;
-        const avgJitter = recent.reduce((sum, s) => sum + s.audio.jitter, 0) / recent.length;
-        
-        if (avgRtt < 150 && avgPacketLoss < 1 && avgJitter < 30) {
-            return 'excellent';
-        } else if (avgRtt < 300 && avgPacketLoss < 3 && avgJitter < 50) {
-            return 'good';
-        } else if (avgRtt < 500 && avgPacketLoss < 5 && avgJitter < 100) {
-            return 'fair';
-        } else {
-            return 'poor';
+    private restoreCamera(peer: Peer.Instance, screenStream: MediaStream): void {
+        if (!this.localStream || peer.destroyed) return;
+
+        const cameraTrack = this.localStream.getVideoTracks()[0];
+        const screenTrack = screenStream.getVideoTracks()[0];
+        if (cameraTrack && screenTrack) {
+            peer.replaceTrack(screenTrack, cameraTrack, this.localStream);
         }
+        screenStream.getAudioTracks().forEach(track => peer.removeTrack(track, this.localStream!));
     }
 
-    reset(): void {
-        this.history = [];
+    destroy(): void {
+        navigator.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+        this.stopHeartbeat();
+        this.clearIceServerRefresh();
+        this.files.reset();
+        this.cleanupPeerConnections();
+        
+        if (this.localStream) {
+            this.localStream.getTracks().forEach(track => track.stop());
+            this.localStream = null;
+        }
+        this.audioProcessor?.close();
+        this.audioProcessor = null;
+        
+        if (this.ws) {
+            // Closing on purpose, so don't try to reconnect
+            this.ws.onclose = null;
+            this.ws.close();
+            this.ws = null;
+        }
     }
 }
@@ -0,0 +1,8 @@
+// src/lib/devices.ts - Resolves remembered device choices against what is plugged in
+import { DeviceSelection } from '../types';
+
+/** The chosen speaker, or null for the default while it is unplugged; it is used again once it comes back */
+export const getAudioOutputId = (devices: MediaDeviceInfo[], selected: DeviceSelection): string | null =>
+    devices.some(device => device.kind === 'audiooutput' && device.deviceId === selected.audiooutput)
+        ? selected.audiooutput
+        : null;
@@ -0,0 +1,11 @@
+// src/lib/download.ts - Saves generated files through the browser's download flow
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // The download has its own reference by the time this runs
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,12 @@
+// src/lib/participants.ts - Display names for the people in a call
+
+/**
+ * Nobody has a name yet, so partners are numbered in the order they joined.
+ * `peerIds` are the partners still in the call, in that order; everything
+ * that labels a partner goes through this so they have one name everywhere.
+ */
+export const getParticipantName = (peerId: string, peerIds: string[]): string => {
+    const index = peerIds.indexOf(peerId);
+    if (index === -1) return 'Former participant';
+    return peerIds.length === 1 ? 'Your partner' : `Participant ${index + 1}`;
+};
@@ -0,0 +1,65 @@
+// src/lib/peerProtocol.ts - Messages exchanged directly between peers over the data channel
+//
+// Same envelope idea as the signaling protocol: { v, type, payload }, validated
+// on receipt. Unlike signaling there is nobody to report errors to, so
+// anything malformed is simply dropped.
+import { Validator, isBoolean, isNumber, isObject, isString, oneOf, shape } from '../../shared/protocol';
+import type { VideoLayer } from '../types';
+
+export const PEER_PROTOCOL_VERSION = 1;
+
+export type PeerMessage =
+    | { type: 'chat'; payload: { id: string; text: string; sentAt: number } }
+    | { type: 'chat-ack'; payload: { id: string } }
+    | { type: 'file-offer'; payload: { id: string; name: string; size: number; mimeType: string; chunkSize: number; sha256: string } }
+    | { type: 'file-accept'; payload: { id: string; fromChunk: number } }
+    | { type: 'file-decline'; payload: { id: string } }
+    | { type: 'file-chunk'; payload: { id: string; index: number; data: string } }
+    | { type: 'file-ack'; payload: { id: string; received: number } }
+    | { type: 'file-complete'; payload: { id: string; verified: boolean } }
+    | { type: 'file-cancel'; payload: { id: string } }
+    | { type: 'layer-request'; payload: { layer: VideoLayer } };
+
+export type PeerPayload<T extends PeerMessage['type']> = Extract<PeerMessage, { type: T }>['payload'];
+
+const PEER_MESSAGES: Record<PeerMessage['type'], Validator> = {
+    'chat': shape({ id: isString, text: isString, sentAt: isNumber }),
+    'chat-ack': shape({ id: isString }),
+    'file-offer': shape({ id: isString, name: isString, size: isNumber, mimeType: isString, chunkSize: isNumber, sha256: isString }),
+    'file-accept': shape({ id: isString, fromChunk: isNumber }),
+    'file-decline': shape({ id: isString }),
+    'file-chunk': shape({ id: isString, index: isNumber, data: isString }),
+    'file-ack': shape({ id: isString, received: isNumber }),
+    'file-complete': shape({ id: isString, verified: isBoolean }),
+    'file-cancel': shape({ id: isString }),
+    'layer-request': shape({ layer: oneOf('low', 'mid', 'high') })
+};
+
+export function encodePeerMessage({ type, payload }: PeerMessage): string {
+    return JSON.stringify({ v: PEER_PROTOCOL_VERSION, type, payload });
+}
+
+export function parsePeerMessage(raw: string | { toString(): string }): PeerMessage | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(typeof raw === 'string' ? raw : raw.toString());
+    } catch (e) {
+        return null;
+    }
+
+    if (!isObject(data) || data.v !== PEER_PROTOCOL_VERSION || typeof data.type !== 'string') {
+        return null;
+    }
+
+    const validate = (PEER_MESSAGES as Record<string, Validator | undefined>)[data.type];
+    if (!validate || !validate(data.payload)) {
+        return null;
+    }
+
+    return { type: data.type, payload: data.payload } as PeerMessage;
+}
+
+/** Ids for chat messages and file transfers; they only need to be unique within one call */
+export function generatePeerMessageId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 8)}`;
+}
@@ -0,0 +1,192 @@
+// src/lib/preCallCheck.ts - Device and network checks for the pre-call screen
+//
+// None of this touches the signaling server or a real partner: the loopback
+// test connects two RTCPeerConnections inside the page, and the connectivity
+// check only gathers ICE candidates against the configured STUN/TURN servers.
+import { CodecStats } from '../types';
+
+export type CheckStatus = 'idle' | 'running' | 'pass' | 'warn' | 'fail';
+
+export interface CheckResult {
+    status: CheckStatus;
+    detail: string;
+}
+
+export interface CandidateAvailability {
+    host: boolean;
+    srflx: boolean;
+    relay: boolean;
+}
+
+const TONE_FREQUENCY = 440;
+const TONE_VOLUME = 0.2;
+// ms
+const TONE_DURATION = 1200;
+const LOOPBACK_TIMEOUT = 8000;
+const STATS_POLL_INTERVAL = 250;
+// Gathering against an unreachable TURN server can take a long time to give up
+const GATHERING_TIMEOUT = 10000;
+
+/** Plays a short tone on the chosen speaker; null for the system default */
+export async function playTestTone(sinkId: string | null): Promise<void> {
+    const context = new AudioContext();
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const destination = context.createMediaStreamDestination();
+
+    oscillator.frequency.value = TONE_FREQUENCY;
+    // Fade out so the tone doesn't end with a click
+    gain.gain.setValueAtTime(TONE_VOLUME, context.currentTime);
+    gain.gain.linearRampToValueAtTime(0, context.currentTime + TONE_DURATION / 1000);
+    oscillator.connect(gain).connect(destination);
+
+    // Through a media element, like the call itself, so setSinkId picks the speaker
+    const audio = new Audio();
+    audio.srcObject = destination.stream;
+
+    // stop() throws on an oscillator that never started, which would hide why play() failed
+    let started = false;
+    try {
+        if (sinkId && 'setSinkId' in audio) await audio.setSinkId(sinkId);
+        await audio.play();
+        oscillator.start();
+        started = true;
+        await wait(TONE_DURATION);
+    } finally {
+        if (started) oscillator.stop();
+        audio.pause();
+        audio.srcObject = null;
+        await context.close();
+    }
+}
+
+/**
+ * Sends our tracks from one in-page peer connection to another and waits
+ * until the receiving side has decoded each kind, which proves the browser
+ * can encode and decode the media we are about to send.
+ */
+export async function runLoopbackTest(stream: MediaStream): Promise<CheckResult> {
+    const tracks = stream.getTracks().filter(track => track.readyState === 'live');
+    if (tracks.length === 0) {
+        return { status: 'fail', detail: 'No camera or microphone to send' };
+    }
+
+    const sender = new RTCPeerConnection();
+    const receiver = new RTCPeerConnection();
+    sender.onicecandidate = (event) => { if (event.candidate) receiver.addIceCandidate(event.candidate).catch(() => {}); };
+    receiver.onicecandidate = (event) => { if (event.candidate) sender.addIceCandidate(event.candidate).catch(() => {}); };
+    tracks.forEach(track => sender.addTrack(track, stream));
+
+    try {
+        await sender.setLocalDescription(await sender.createOffer());
+        await receiver.setRemoteDescription(sender.localDescription!);
+        await receiver.setLocalDescription(await receiver.createAnswer());
+        await sender.setRemoteDescription(receiver.localDescription!);
+
+        const kinds = [...new Set(tracks.map(track => track.kind))];
+        const decoded = await waitForDecodedMedia(receiver, kinds);
+        const describe = (kind: string) => `${kind} (${decoded.get(kind)})`;
+
+        if (decoded.size === 0) {
+            return { status: 'fail', detail: 'Nothing arrived over the loopback connection' };
+        }
+        const missing = kinds.filter(kind => !decoded.has(kind));
+        if (missing.length > 0) {
+            return { status: 'warn', detail: `Only ${[...decoded.keys()].map(describe).join(' and ')} came through; ${missing.join(' and ')} did not decode` };
+        }
+        return { status: 'pass', detail: `Sent and decoded ${kinds.map(describe).join(' and ')}` };
+    } catch (error) {
+        return { status: 'fail', detail: `Loopback call failed: ${error instanceof Error ? error.message : String(error)}` };
+    } finally {
+        sender.close();
+        receiver.close();
+    }
+}
+
+// Resolves with the codec of every kind that decoded before the timeout
+async function waitForDecodedMedia(receiver: RTCPeerConnection, kinds: string[]): Promise<Map<string, string>> {
+    const decoded = new Map<string, string>();
+    const deadline = Date.now() + LOOPBACK_TIMEOUT;
+
+    while (Date.now() < deadline && decoded.size < kinds.length) {
+        const report = await receiver.getStats();
+        report.forEach((stat: RTCStats) => {
+            if (stat.type !== 'inbound-rtp') return;
+            const inbound = stat as RTCInboundRtpStreamStats;
+            const flowing = inbound.kind === 'video'
+                ? (inbound.framesDecoded ?? 0) > 0
+                : (inbound.totalSamplesReceived ?? 0) > 0;
+            if (flowing && !decoded.has(inbound.kind)) {
+                const codec = inbound.codecId && (report.get(inbound.codecId) as CodecStats | undefined)?.mimeType;
+                decoded.set(inbound.kind, codec ? codec.split('/')[1] : 'unknown codec');
+            }
+        });
+        if (decoded.size < kinds.length) await wait(STATS_POLL_INTERVAL);
+    }
+
+    return decoded;
+}
+
+/** Gathers candidates against `iceServers` and reports which types showed up */
+export function gatherCandidateTypes(iceServers: RTCIceServer[]): Promise<CandidateAvailability> {
+    const found: CandidateAvailability = { host: false, srflx: false, relay: false };
+    const connection = new RTCPeerConnection({ iceServers });
+    // Something to negotiate, otherwise there is nothing to gather for
+    connection.createDataChannel('connectivity-check');
+
+    return new Promise((resolve) => {
+        const finish = () => {
+            clearTimeout(timeout);
+            connection.onicecandidate = null;
+            connection.close();
+            resolve(found);
+        };
+        const timeout = setTimeout(finish, GATHERING_TIMEOUT);
+
+        connection.onicecandidate = (event) => {
+            // A null candidate marks the end of gathering
+            if (!event.candidate) {
+                finish();
+                return;
+            }
+            const type = event.candidate.type;
+            if (type === 'host' || type === 'srflx' || type === 'relay') found[type] = true;
+        };
+
+        connection.createOffer()
+            .then(offer => connection.setLocalDescription(offer))
+            .catch(finish);
+    });
+}
+
+/**
+ * Relay candidates get through any firewall that allows the TURN server;
+ * server-reflexive ones cover most home NATs; host ones only the local network.
+ */
+export function rateConnectivity(found: CandidateAvailability, iceServers: RTCIceServer[]): CheckResult {
+    const types = (Object.keys(found) as (keyof CandidateAvailability)[]).filter(type => found[type]);
+    const summary = `Found ${types.join(', ') || 'no'} candidates`;
+    const hasTurn = iceServers.some(server => [server.urls].flat().some(url => url.startsWith('turn')));
+
+    if (found.relay) {
+        return { status: 'pass', detail: summary };
+    }
+    if (found.srflx) {
+        return {
+            status: 'warn',
+            detail: hasTurn
+                ? `${summary}; the TURN relay is unreachable, so strict firewalls may block calls`
+                : `${summary}; no TURN relay is configured, so strict firewalls may block calls`
+        };
+    }
+    return {
+        status: 'fail',
+        detail: found.host
+            ? `${summary}; STUN is unreachable, so calls only work on this network`
+            : 'No network candidates at all'
+    };
+}
+
+function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,18 @@
+// src/lib/roomLink.ts - Shareable invite links for private rooms
+
+const ROOM_PATH_PATTERN = /^\/r\/([A-Za-z0-9-]{3,64})\/?$/;
+
+export const getRoomIdFromPath = (pathname: string = window.location.pathname): string | null => {
+    const match = pathname.match(ROOM_PATH_PATTERN);
+    return match ? match[1] : null;
+};
+
+export const buildRoomLink = (roomId: string): string =>
+    `${window.location.origin}/r/${encodeURIComponent(roomId)}`;
+
+export const navigateToRoom = (roomId: string | null): void => {
+    const path = roomId ? `/r/${encodeURIComponent(roomId)}` : '/';
+    if (window.location.pathname !== path) {
+        window.history.pushState({ roomId }, '', path);
+    }
+};
@@ -0,0 +1,135 @@
+// src/lib/sdp.ts - Small SDP rewrites applied to our offers and answers
+
+type MediaKind = 'audio' | 'video';
+
+interface MediaSection {
+    /** Index of the m= line */
+    start: number;
+    /** Index one past the section's last line */
+    end: number;
+}
+
+/**
+ * Moves `codec`'s payload types to the front of every m= section of `kind`,
+ * which makes it the preferred codec for that media. Codec names are
+ * matched case-insensitively; an unknown codec leaves the SDP unchanged.
+ */
+export function preferCodec(sdp: string, kind: MediaKind, codec: string): string {
+    const lines = sdp.split('\r\n');
+
+    for (const section of findSections(lines, kind)) {
+        const preferred = payloadTypes(lines, section, codec);
+        if (preferred.length > 0) {
+            lines[section.start] = moveFormatsToFront(lines[section.start], preferred);
+        }
+    }
+
+    return lines.join('\r\n');
+}
+
+/**
+ * Merges `params` into the a=fmtp line of every payload type of `codec`,
+ * adding the line when the codec has none. Existing parameters not named
+ * in `params` are kept.
+ */
+export function setFormatParameters(
+    sdp: string,
+    kind: MediaKind,
+    codec: string,
+    params: Record<string, string | number>
+): string {
+    const lines = sdp.split('\r\n');
+
+    // Walk backwards so inserted lines don't shift sections we haven't visited
+    for (const section of findSections(lines, kind).reverse()) {
+        for (const payloadType of payloadTypes(lines, section, codec)) {
+            const fmtpPrefix = `a=fmtp:${payloadType} `;
+            const fmtpIndex = indexInSection(lines, section, line => line.startsWith(fmtpPrefix));
+
+            if (fmtpIndex >= 0) {
+                const existing = parseParameters(lines[fmtpIndex].slice(fmtpPrefix.length));
+                lines[fmtpIndex] = fmtpPrefix + formatParameters({ ...existing, ...params });
+            } else {
+                const rtpmapIndex = indexInSection(lines, section, line => line.startsWith(`a=rtpmap:${payloadType} `));
+                lines.splice(rtpmapIndex + 1, 0, fmtpPrefix + formatParameters(params));
+                section.end++;
+            }
+        }
+    }
+
+    return lines.join('\r\n');
+}
+
+/** Sets (or replaces) the a=ptime packetization time of every `kind` section */
+export function setPacketTime(sdp: string, kind: MediaKind, ptime: number): string {
+    const lines = sdp.split('\r\n');
+
+    for (const section of findSections(lines, kind).reverse()) {
+        const ptimeIndex = indexInSection(lines, section, line => line.startsWith('a=ptime:'));
+        if (ptimeIndex >= 0) {
+            lines[ptimeIndex] = `a=ptime:${ptime}`;
+        } else {
+            // Before the first rtpmap keeps it clear of the c= line that must follow m=
+            const rtpmapIndex = indexInSection(lines, section, line => line.startsWith('a=rtpmap:'));
+            lines.splice(rtpmapIndex >= 0 ? rtpmapIndex : section.end, 0, `a=ptime:${ptime}`);
+        }
+    }
+
+    return lines.join('\r\n');
+}
+
+function findSections(lines: string[], kind: MediaKind): MediaSection[] {
+    const sections: MediaSection[] = [];
+    let current: MediaSection | null = null;
+
+    lines.forEach((line, index) => {
+        if (!line.startsWith('m=')) return;
+        if (current) current.end = index;
+        current = line.startsWith(`m=${kind} `) ? { start: index, end: lines.length } : null;
+        if (current) sections.push(current);
+    });
+
+    // The SDP ends with \r\n, so the last "line" is empty and belongs to no section
+    const last = sections[sections.length - 1];
+    if (last && last.end === lines.length && lines[lines.length - 1] === '') {
+        last.end = lines.length - 1;
+    }
+
+    return sections;
+}
+
+function payloadTypes(lines: string[], section: MediaSection, codec: string): string[] {
+    const types: string[] = [];
+    for (let i = section.start + 1; i < section.end; i++) {
+        const match = /^a=rtpmap:(\d+) ([^/]+)\//.exec(lines[i]);
+        if (match && match[2].toLowerCase() === codec.toLowerCase()) {
+            types.push(match[1]);
+        }
+    }
+    return types;
+}
+
+function indexInSection(lines: string[], section: MediaSection, predicate: (line: string) => boolean): number {
+    for (let i = section.start + 1; i < section.end; i++) {
+        if (predicate(lines[i])) return i;
+    }
+    return -1;
+}
+
+function parseParameters(value: string): Record<string, string> {
+    const params: Record<string, string> = {};
+    for (const pair of value.split(';')) {
+        const [key, ...rest] = pair.trim().split('=');
+        if (key) params[key] = rest.join('=');
+    }
+    return params;
+}
+
+function formatParameters(params: Record<string, string | number>): string {
+    return Object.entries(params).map(([key, value]) => `${key}=${value}`).join(';');
+}
+
+function moveFormatsToFront(mLine: string, formats: string[]): string {
+    const [media, port, protocol, ...existing] = mLine.split(' ');
+    return [media, port, protocol, ...formats, ...existing.filter(format => !formats.includes(format))].join(' ');
+}
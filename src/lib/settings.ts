@@ -0,0 +1,33 @@
+// src/lib/settings.ts - Default call settings, shared by the controller and the store
+import { VoIPSettings } from '../types';
+
+/** The controller's settings until told otherwise, and the store's initial ones */
+export const DEFAULT_SETTINGS: VoIPSettings = {
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+    audioChain: {
+        enabled: true,
+        highPass: { enabled: true, frequency: 80 },
+        gain: { enabled: true, value: 0 },
+        // A gate set too high clips the start of words, so it's opt-in
+        noiseGate: { enabled: false, threshold: -50 },
+        compressor: { enabled: true }
+    },
+    preferredCodec: 'opus',
+    preferredVideoCodec: 'vp8',
+    opus: {
+        fec: true,
+        dtx: false,
+        stereo: false,
+        maxAverageBitrate: 64000,
+        ptime: 20
+    },
+    videoLayerMode: 'scaled',
+    receiveLayer: 'auto',
+    videoBitrate: 2500000,
+    audioBitrate: 128000,
+    pushToTalk: false,
+    pushToTalkKey: 'Space',
+    spaceToUnmute: false
+};
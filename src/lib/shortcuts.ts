@@ -0,0 +1,48 @@
+// src/lib/shortcuts.ts - In-call keyboard shortcuts
+
+export type ShortcutAction = 'toggleAudio' | 'toggleVideo' | 'toggleScreenShare' | 'toggleStats' | 'hangUp' | 'showShortcuts';
+
+export interface Shortcut {
+    action: ShortcutAction;
+    /** KeyboardEvent.code, so shortcuts sit in the same place on every layout */
+    code: string;
+    shift?: boolean;
+    label: string;
+}
+
+export const SHORTCUTS: Shortcut[] = [
+    { action: 'toggleAudio', code: 'KeyM', label: 'Mute / unmute' },
+    { action: 'toggleVideo', code: 'KeyV', label: 'Camera on / off' },
+    { action: 'toggleScreenShare', code: 'KeyS', label: 'Share screen' },
+    { action: 'toggleStats', code: 'KeyI', label: 'Call statistics' },
+    // Shifted so a stray key press doesn't end the call
+    { action: 'hangUp', code: 'KeyH', shift: true, label: 'Hang up' },
+    { action: 'showShortcuts', code: 'Slash', shift: true, label: 'Show shortcuts' },
+];
+
+// Keys that only move focus or interact with a field aren't typing
+const NON_TEXT_INPUTS = ['checkbox', 'radio', 'range', 'button', 'submit', 'color', 'file'];
+
+export function findShortcut(event: KeyboardEvent): ShortcutAction | null {
+    // Browser and OS shortcuts win
+    if (event.ctrlKey || event.metaKey || event.altKey) return null;
+    return SHORTCUTS.find(shortcut => shortcut.code === event.code && !!shortcut.shift === event.shiftKey)?.action ?? null;
+}
+
+/** Typing in the chat or a settings field must not trigger shortcuts */
+export function isTypingTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target instanceof HTMLInputElement) return !NON_TEXT_INPUTS.includes(target.type);
+    return target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+}
+
+export function keyLabel(code: string, shift = false): string {
+    if (code === 'Slash' && shift) return '?';
+
+    const name = code.startsWith('Key')
+        ? code.slice(3)
+        : code.startsWith('Digit')
+            ? code.slice(5)
+            : code === 'Backquote' ? '`' : code;
+    return shift ? `Shift + ${name}` : name;
+}
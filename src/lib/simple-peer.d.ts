@@ -0,0 +1,12 @@
+// src/lib/simple-peer.d.ts - Internals of simple-peer that the controller relies on
+import 'simple-peer';
+
+declare module 'simple-peer' {
+    interface Instance {
+        initiator: boolean;
+        _pc: RTCPeerConnection;
+        _channel: RTCDataChannel | null;
+        /** Starts a new offer/answer round; non-initiators ask the initiator to do it */
+        negotiate(): void;
+    }
+}
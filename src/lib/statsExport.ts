@@ -0,0 +1,42 @@
+// src/lib/statsExport.ts - Serializes a call's stats history for bug reports
+import { StatsSample } from '../types';
+
+export function statsToJson(samples: StatsSample[]): string {
+    return JSON.stringify(samples, null, 2);
+}
+
+// One row per sample; nested stats become dotted columns like video.outbound.bitrate
+export function statsToCsv(samples: StatsSample[]): string {
+    const rows = samples.map(({ timestamp, peerId, stats }) => ({
+        time: new Date(timestamp).toISOString(),
+        peerId,
+        ...flatten(stats)
+    }));
+
+    const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+    const lines = rows.map(row => columns.map(column => csvValue(row[column as keyof typeof row])).join(','));
+    return [columns.join(','), ...lines].join('\n');
+}
+
+export function statsFileName(extension: 'json' | 'csv', date = new Date()): string {
+    return `call-stats-${date.toISOString().slice(0, 19).replace(/:/g, '-')}.${extension}`;
+}
+
+function flatten(value: object, prefix = ''): Record<string, string | number | boolean> {
+    const result: Record<string, string | number | boolean> = {};
+    for (const [key, child] of Object.entries(value)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (child !== null && typeof child === 'object') {
+            Object.assign(result, flatten(child, path));
+        } else {
+            result[path] = child;
+        }
+    }
+    return result;
+}
+
+function csvValue(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
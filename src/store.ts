@@ -1,66 +1,276 @@
 // src/store.ts - Enhanced State Management
 import { create } from 'zustand';
-import { devtools, subscribeWithSelector } from 'zustand/middleware';
-import { ConnectionState, CallQuality, CallStats } from './types';
+import { devtools, persist, subscribeWithSelector } from 'zustand/middleware';
+import { AudioChainSettings, ConnectionState, CallQuality, CallStats, ChatMessage, ChatMessageStatus, DeviceSelection, FileTransfer, MatchPreferences, QualityScore, RemoteMediaState, ScreenShareOptions, StatsSample, VideoLayerMode, VoIPSettings } from './types';
+import { DEFAULT_SETTINGS } from './lib/settings';
 
 interface MediaState {
     isAudioEnabled: boolean;
     isVideoEnabled: boolean;
     isScreenSharing: boolean;
+    isRecording: boolean;
 }
 
 interface VoIPStore {
     connectionState: ConnectionState;
     callQuality: CallQuality;
+    qualityScore: QualityScore | null;
+    /** Score of each peer's link, for telling whose connection is the problem */
+    peerQuality: Map<string, QualityScore>;
     localStream: MediaStream | null;
-    remoteStream: MediaStream | null;
+    remoteStreams: Map<string, MediaStream>;
+    /** Screens that peers send next to their camera */
+    remoteScreenStreams: Map<string, MediaStream>;
+    /** Each peer's mute, camera and screen share state */
+    remoteMedia: Map<string, RemoteMediaState>;
+    /** Peers currently recording the call */
+    recordingPeers: string[];
     mediaState: MediaState;
+    screenShareOptions: ScreenShareOptions;
     callStats: CallStats | null;
+    /** Every stats sample of the current call, oldest first */
+    statsHistory: StatsSample[];
+    roomId: string | null;
+    matchPreferences: MatchPreferences;
+    messages: ChatMessage[];
+    unreadMessages: number;
+    transfers: FileTransfer[];
+    devices: MediaDeviceInfo[];
+    selectedDevices: DeviceSelection;
+    settings: VoIPSettings;
     setConnectionState: (state: ConnectionState) => void;
-    setCallQuality: (quality: CallQuality) => void;
+    setCallQuality: (quality: CallQuality, score?: QualityScore | null) => void;
+    setPeerQuality: (peerId: string, score: QualityScore | null) => void;
     setLocalStream: (stream: MediaStream | null) => void;
-    setRemoteStream: (stream: MediaStream | null) => void;
+    setRemoteStream: (peerId: string, stream: MediaStream | null) => void;
+    setRemoteScreenStream: (peerId: string, stream: MediaStream | null) => void;
+    setRemoteMedia: (peerId: string, media: Partial<RemoteMediaState> | null) => void;
+    setScreenSharing: (active: boolean) => void;
+    setRecording: (active: boolean) => void;
+    setRemoteRecording: (peerId: string, active: boolean) => void;
+    setScreenShareOptions: (options: Partial<ScreenShareOptions>) => void;
     toggleAudio: () => void;
     toggleVideo: () => void;
-    updateCallStats: (stats: CallStats) => void;
+    setAudioEnabled: (enabled: boolean) => void;
+    setVideoEnabled: (enabled: boolean) => void;
+    updateCallStats: (peerId: string, stats: CallStats) => void;
+    clearStatsHistory: () => void;
+    setRoomId: (roomId: string | null) => void;
+    setMatchPreferences: (preferences: Partial<MatchPreferences>) => void;
+    addMessage: (message: ChatMessage) => void;
+    setMessageStatus: (id: string, status: ChatMessageStatus) => void;
+    markMessagesRead: () => void;
+    clearMessages: () => void;
+    upsertTransfer: (transfer: FileTransfer) => void;
+    clearTransfers: () => void;
+    setDevices: (devices: MediaDeviceInfo[]) => void;
+    setSelectedDevice: (kind: MediaDeviceKind, deviceId: string | null) => void;
+    updateSettings: (settings: Partial<VoIPSettings>) => void;
     reset: () => void;
 }
 
+// Three hours of two-second samples in a one-to-one call
+const MAX_STATS_HISTORY = 5400;
+
+const initialMatchPreferences: MatchPreferences = {
+    topics: [],
+    mediaMode: 'video',
+    avoidRecentPartners: 3,
+};
+
+export const initialRemoteMedia: RemoteMediaState = {
+    audioEnabled: true,
+    videoEnabled: true,
+    screenSharing: false,
+};
+
 const initialMediaState: MediaState = {
     isAudioEnabled: true,
     isVideoEnabled: true,
     isScreenSharing: false,
+    isRecording: false,
 };
 
+// Stages added in later versions get their defaults too
+const mergeAudioChain = (defaults: AudioChainSettings, saved?: Partial<AudioChainSettings>): AudioChainSettings => ({
+    enabled: saved?.enabled ?? defaults.enabled,
+    highPass: { ...defaults.highPass, ...saved?.highPass },
+    gain: { ...defaults.gain, ...saved?.gain },
+    noiseGate: { ...defaults.noiseGate, ...saved?.noiseGate },
+    compressor: { ...defaults.compressor, ...saved?.compressor },
+});
+
+// Keyed by the union so a new mode can't be left out
+const VIDEO_LAYER_MODES: Record<VideoLayerMode, true> = { single: true, scaled: true, svc: true };
+
+const isVideoLayerMode = (mode: unknown): mode is VideoLayerMode =>
+    typeof mode === 'string' && Object.keys(VIDEO_LAYER_MODES).includes(mode);
+
 export const useStore = create<VoIPStore>()(
     devtools(
-        subscribeWithSelector((set) => ({
-            connectionState: 'initializing',
-            callQuality: 'unknown',
-            localStream: null,
-            remoteStream: null,
-            mediaState: initialMediaState,
-            callStats: null,
-            setConnectionState: (state) => set({ connectionState: state }),
-            setCallQuality: (quality) => set({ callQuality: quality }),
-            setLocalStream: (stream) => set({ localStream: stream }),
-            setRemoteStream: (stream) => set({ remoteStream: stream }),
-            toggleAudio: () => set((state) => ({
-                mediaState: { ...state.mediaState, isAudioEnabled: !state.mediaState.isAudioEnabled }
-            })),
-            toggleVideo: () => set((state) => ({
-                mediaState: { ...state.mediaState, isVideoEnabled: !state.mediaState.isVideoEnabled }
-            })),
-            updateCallStats: (stats) => set({ callStats: stats }),
-            reset: () => set({
+        persist(
+            subscribeWithSelector((set) => ({
                 connectionState: 'initializing',
                 callQuality: 'unknown',
+                qualityScore: null,
+                peerQuality: new Map(),
                 localStream: null,
-                remoteStream: null,
+                remoteStreams: new Map(),
+                remoteScreenStreams: new Map(),
+                remoteMedia: new Map(),
+                recordingPeers: [],
                 mediaState: initialMediaState,
+                screenShareOptions: { withAudio: false, separateTracks: false },
                 callStats: null,
-            }),
-        })),
+                statsHistory: [],
+                roomId: null,
+                matchPreferences: initialMatchPreferences,
+                messages: [],
+                unreadMessages: 0,
+                transfers: [],
+                devices: [],
+                selectedDevices: { audioinput: null, videoinput: null, audiooutput: null },
+                settings: DEFAULT_SETTINGS,
+                setConnectionState: (state) => set({ connectionState: state }),
+                setCallQuality: (quality, score = null) => set({ callQuality: quality, qualityScore: score }),
+                setPeerQuality: (peerId, score) => set((state) => {
+                    const peerQuality = new Map(state.peerQuality);
+                    if (score) {
+                        peerQuality.set(peerId, score);
+                    } else {
+                        peerQuality.delete(peerId);
+                    }
+                    return { peerQuality };
+                }),
+                setLocalStream: (stream) => set({ localStream: stream }),
+                setRemoteStream: (peerId, stream) => set((state) => {
+                    const remoteStreams = new Map(state.remoteStreams);
+                    if (stream) {
+                        remoteStreams.set(peerId, stream);
+                    } else {
+                        remoteStreams.delete(peerId);
+                    }
+                    return { remoteStreams };
+                }),
+                setRemoteScreenStream: (peerId, stream) => set((state) => {
+                    const remoteScreenStreams = new Map(state.remoteScreenStreams);
+                    if (stream) {
+                        remoteScreenStreams.set(peerId, stream);
+                    } else {
+                        remoteScreenStreams.delete(peerId);
+                    }
+                    return { remoteScreenStreams };
+                }),
+                setRemoteMedia: (peerId, media) => set((state) => {
+                    const remoteMedia = new Map(state.remoteMedia);
+                    if (media) {
+                        remoteMedia.set(peerId, { ...initialRemoteMedia, ...remoteMedia.get(peerId), ...media });
+                    } else {
+                        remoteMedia.delete(peerId);
+                    }
+                    return { remoteMedia };
+                }),
+                setScreenSharing: (active) => set((state) => ({
+                    mediaState: { ...state.mediaState, isScreenSharing: active }
+                })),
+                setRecording: (active) => set((state) => ({
+                    mediaState: { ...state.mediaState, isRecording: active }
+                })),
+                setRemoteRecording: (peerId, active) => set((state) => ({
+                    recordingPeers: active
+                        ? [...state.recordingPeers.filter(id => id !== peerId), peerId]
+                        : state.recordingPeers.filter(id => id !== peerId)
+                })),
+                setScreenShareOptions: (options) => set((state) => ({
+                    screenShareOptions: { ...state.screenShareOptions, ...options }
+                })),
+                toggleAudio: () => set((state) => ({
+                    mediaState: { ...state.mediaState, isAudioEnabled: !state.mediaState.isAudioEnabled }
+                })),
+                toggleVideo: () => set((state) => ({
+                    mediaState: { ...state.mediaState, isVideoEnabled: !state.mediaState.isVideoEnabled }
+                })),
+                setAudioEnabled: (enabled) => set((state) => ({
+                    mediaState: { ...state.mediaState, isAudioEnabled: enabled }
+                })),
+                setVideoEnabled: (enabled) => set((state) => ({
+                    mediaState: { ...state.mediaState, isVideoEnabled: enabled }
+                })),
+                updateCallStats: (peerId, stats) => set((state) => ({
+                    callStats: stats,
+                    statsHistory: [...state.statsHistory, { timestamp: Date.now(), peerId, stats }].slice(-MAX_STATS_HISTORY)
+                })),
+                clearStatsHistory: () => set({ callStats: null, statsHistory: [] }),
+                setRoomId: (roomId) => set({ roomId }),
+                setMatchPreferences: (preferences) => set((state) => ({
+                    matchPreferences: { ...state.matchPreferences, ...preferences }
+                })),
+                addMessage: (message) => set((state) => ({
+                    messages: [...state.messages, message],
+                    unreadMessages: message.from ? state.unreadMessages + 1 : state.unreadMessages
+                })),
+                setMessageStatus: (id, status) => set((state) => ({
+                    messages: state.messages.map(message => message.id === id ? { ...message, status } : message)
+                })),
+                markMessagesRead: () => set({ unreadMessages: 0 }),
+                clearMessages: () => set({ messages: [], unreadMessages: 0 }),
+                upsertTransfer: (transfer) => set((state) => ({
+                    transfers: state.transfers.some(t => t.id === transfer.id)
+                        ? state.transfers.map(t => t.id === transfer.id ? transfer : t)
+                        : [...state.transfers, transfer]
+                })),
+                clearTransfers: () => set((state) => {
+                    state.transfers.forEach(t => t.url && URL.revokeObjectURL(t.url));
+                    return { transfers: [] };
+                }),
+                setDevices: (devices) => set({ devices }),
+                setSelectedDevice: (kind, deviceId) => set((state) => ({
+                    selectedDevices: { ...state.selectedDevices, [kind]: deviceId }
+                })),
+                updateSettings: (settings) => set((state) => ({
+                    settings: { ...state.settings, ...settings }
+                })),
+                reset: () => set({
+                    connectionState: 'initializing',
+                    callQuality: 'unknown',
+                    qualityScore: null,
+                    peerQuality: new Map(),
+                    localStream: null,
+                    remoteStreams: new Map(),
+                    remoteScreenStreams: new Map(),
+                    remoteMedia: new Map(),
+                    recordingPeers: [],
+                    mediaState: initialMediaState,
+                    callStats: null,
+                    statsHistory: [],
+                    messages: [],
+                    unreadMessages: 0,
+                    transfers: [],
+                }),
+            })),
+            {
+                // Only user choices survive a reload; everything else is per session
+                name: 'voip-preferences',
+                partialize: (state) => ({ selectedDevices: state.selectedDevices, settings: state.settings }),
+                // Settings added in later versions get their defaults
+                merge: (persisted, current) => {
+                    const saved = persisted as Partial<VoIPStore> | undefined;
+                    return {
+                        ...current,
+                        ...saved,
+                        settings: {
+                            ...current.settings,
+                            ...saved?.settings,
+                            opus: { ...current.settings.opus, ...saved?.settings?.opus },
+                            audioChain: mergeAudioChain(current.settings.audioChain, saved?.settings?.audioChain),
+                            videoLayerMode: isVideoLayerMode(saved?.settings?.videoLayerMode)
+                                ? saved.settings.videoLayerMode
+                                : current.settings.videoLayerMode,
+                        },
+                    };
+                },
+            }
+        ),
         { name: 'voip-store' }
     )
 );
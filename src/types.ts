@@ -12,25 +12,91 @@ export type ConnectionState =
 
 export type CallQuality = 'excellent' | 'good' | 'fair' | 'poor' | 'unknown';
 
+export interface QualityScore {
+    /** Estimated audio MOS (1-4.5), the worse of both directions */
+    mos: number;
+    /** 1-5, the worse of both directions; null while no video flows */
+    videoScore: number | null;
+    /** Derived from the lower of the two scores, with hysteresis */
+    quality: CallQuality;
+    link: LinkQuality;
+}
+
+/**
+ * Which end of the link has trouble. Each side is judged by how the media it
+ * sends arrives and by its own bandwidth estimate, since a shaky uplink is
+ * what usually spoils a call for the other person.
+ */
+export interface LinkQuality {
+    local: CallQuality;
+    remote: CallQuality;
+}
+
+// Rates are in bits per second, times in ms, loss in percent of packets
+// over the last sampling interval, codecs as MIME types ('audio/opus')
+
+export interface OutboundStats {
+    bitrate: number;
+    /** What the partner reports losing of our stream */
+    packetLoss: number;
+    /** What the partner measures on our stream */
+    jitter: number;
+    /** From RTCP receiver reports; 0 until the first one arrives */
+    roundTripTime: number;
+    codec: string;
+}
+
+/** One encoding we send, as reported by its outbound-rtp stream */
+export interface EncodingStats {
+    /** The rid, or the SSRC when there is none */
+    id: string;
+    scalabilityMode: string | null;
+    bitrate: number;
+    frameRate: number;
+    resolution: {
+        width: number;
+        height: number;
+    };
+    /** Why the encoder holds back: 'none', 'bandwidth', 'cpu' or 'other' */
+    qualityLimitation: string;
+}
+
+export interface OutboundVideoStats extends OutboundStats {
+    frameRate: number;
+    resolution: {
+        width: number;
+        height: number;
+    };
+    /** Normally one; SVC layers travel inside it rather than as encodings of their own */
+    encodings: EncodingStats[];
+}
+
 export interface AudioStats {
     bitrate: number;
     packetLoss: number;
     jitter: number;
     codec: string;
+    outbound: OutboundStats;
 }
 
 export interface VideoStats {
     bitrate: number;
+    packetLoss: number;
+    /** Share of the interval the picture was frozen, in percent */
+    frozenPercent: number;
     frameRate: number;
     resolution: {
         width: number;
         height: number;
     };
     codec: string;
+    outbound: OutboundVideoStats;
 }
 
 export interface ConnectionStats {
     roundTripTime: number;
+    /** The browser's bandwidth estimate for sending; 0 when it has none */
+    availableOutgoingBitrate: number;
     localCandidateType: string;
     remoteCandidateType: string;
     protocol: string;
@@ -42,14 +108,66 @@ export interface CallStats {
     connection: ConnectionStats;
 }
 
+export interface StatsSample {
+    timestamp: number;
+    peerId: string;
+    stats: CallStats;
+}
+
 export interface MediaConstraints {
     audio: boolean | MediaTrackConstraints;
     video: boolean | MediaTrackConstraints;
 }
 
-export interface SignalingMessage {
-    type: string;
-    payload?: any;
+export type { SignalingMessage, ClientMessage, ServerMessage } from '../shared/protocol.js';
+
+export type MatchMediaMode = 'audio' | 'video';
+
+export interface MatchPreferences {
+    language?: string;
+    topics?: string[];
+    mediaMode?: MatchMediaMode;
+    avoidRecentPartners?: number;
+}
+
+export type ChatMessageStatus = 'queued' | 'sent' | 'delivered';
+
+export interface ChatMessage {
+    id: string;
+    /** Peer ID of the author, or null for our own messages */
+    from: string | null;
+    text: string;
+    timestamp: number;
+    status: ChatMessageStatus;
+}
+
+export type FileTransferStatus =
+    | 'offered'       // incoming, waiting for us to accept or decline
+    | 'pending'       // outgoing, waiting for the peer to accept
+    | 'transferring'
+    | 'paused'        // connection dropped; resumes from the last acked chunk
+    | 'completed'
+    | 'declined'
+    | 'cancelled'
+    | 'failed';
+
+export interface FileTransfer {
+    id: string;
+    peerId: string;
+    direction: 'incoming' | 'outgoing';
+    name: string;
+    size: number;
+    mimeType: string;
+    status: FileTransferStatus;
+    bytesTransferred: number;
+    /** Object URL of a received file, once its checksum has been verified */
+    url?: string;
+}
+
+export interface IceServersResponse {
+    iceServers: RTCIceServer[];
+    /** Seconds until the TURN credentials expire; absent when only STUN is offered */
+    ttl?: number;
 }
 
 export interface Room {
@@ -67,13 +185,87 @@ export interface Participant {
     connectionQuality: CallQuality;
 }
 
+/** What a partner tells us about their own media; everything is on until they say otherwise */
+export type RemoteMediaState = Pick<Participant, 'audioEnabled' | 'videoEnabled' | 'screenSharing'>;
+
+/** Chosen device per kind; null means the browser default */
+export type DeviceSelection = Record<MediaDeviceKind, string | null>;
+
+export interface ScreenShareOptions {
+    /** Capture system/tab audio along with the screen, where the browser allows it */
+    withAudio: boolean;
+    /** Send the screen as its own stream next to the camera instead of replacing it */
+    separateTracks: boolean;
+}
+
+export type AudioCodec = 'opus' | 'pcmu' | 'pcma';
+export type VideoCodec = 'vp8' | 'vp9' | 'h264' | 'av1';
+
+export type VideoLayer = 'low' | 'mid' | 'high';
+
+/**
+ * single: one encoding shaped only by bandwidth
+ * scaled: one encoding whose resolution and bitrate follow the layer the receiver asks for
+ * svc: one VP9/AV1 stream with spatial and temporal layers, capped at the requested layer
+ */
+export type VideoLayerMode = 'single' | 'scaled' | 'svc';
+
+export interface OpusSettings {
+    /** In-band forward error correction */
+    fec: boolean;
+    /** Discontinuous transmission: near-silent packets during silence */
+    dtx: boolean;
+    stereo: boolean;
+    /** Bits per second */
+    maxAverageBitrate: number;
+    /** Milliseconds of audio per packet */
+    ptime: number;
+}
+
+/** Our own Web Audio stages between the microphone and what we send; each can be bypassed live */
+export interface AudioChainSettings {
+    /** Off sends the microphone track untouched */
+    enabled: boolean;
+    highPass: {
+        enabled: boolean;
+        /** Cutoff in Hz, for rumble and handling noise */
+        frequency: number;
+    };
+    gain: {
+        enabled: boolean;
+        /** dB */
+        value: number;
+    };
+    noiseGate: {
+        enabled: boolean;
+        /** dBFS below which the microphone is silenced */
+        threshold: number;
+    };
+    compressor: {
+        enabled: boolean;
+    };
+}
+
 export interface VoIPSettings {
     echoCancellation: boolean;
     noiseSuppression: boolean;
     autoGainControl: boolean;
-    preferredCodec: 'opus' | 'pcmu' | 'pcma';
+    audioChain: AudioChainSettings;
+    preferredCodec: AudioCodec;
+    preferredVideoCodec: VideoCodec;
+    opus: OpusSettings;
+    videoLayerMode: VideoLayerMode;
+    /** The layer we ask senders for; auto picks one from our layout and link */
+    receiveLayer: VideoLayer | 'auto';
+    /** Upper bounds for what we send, in bits per second */
     videoBitrate: number;
     audioBitrate: number;
+    /** The microphone is only on while `pushToTalkKey` is held */
+    pushToTalk: boolean;
+    /** KeyboardEvent.code */
+    pushToTalkKey: string;
+    /** While muted, holding Space unmutes until it is released */
+    spaceToUnmute: boolean;
 }
 
 export interface NetworkInfo {
@@ -88,3 +280,26 @@ export interface AudioVisualizerData {
     frequency: number[];
     waveform: number[];
 }
+
+// WebRTC stats and parameters the DOM typings don't declare yet
+
+export interface RemoteInboundRtpStats extends RTCStats {
+    kind: string;
+    localId?: string;
+    jitter?: number;
+    fractionLost?: number;
+    roundTripTime?: number;
+}
+
+export interface IceCandidateStats extends RTCStats {
+    candidateType?: string;
+    protocol?: string;
+}
+
+export interface CodecStats extends RTCStats {
+    mimeType: string;
+}
+
+export interface ScalableEncoding extends RTCRtpEncodingParameters {
+    scalabilityMode?: string;
+}